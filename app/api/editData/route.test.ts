@@ -0,0 +1,216 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { NextRequest } from 'next/server';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// ENV lido na importação dos módulos: precisa vir antes deles
+vi.hoisted(() => {
+    process.env.WEBHOOK_AUTH = 'off';
+    process.env.SHEET_ID = 'planilha-teste';
+    process.env.SHEET_RANGE = 'Página1!A:Z';
+    process.env.SHEET_CACHE_TTL_SECONDS = '0';
+    process.env.STABLE_MESSAGE_DELAY_MS = '0';
+});
+
+// Planilha e agenda em memória no lugar das APIs do Google
+const google = vi.hoisted(() => {
+    const state = { rows: [] as string[][], nextEventId: 1 };
+
+    const colIndex = (letters: string) => [...letters].reduce((acc, ch) => acc * 26 + ch.charCodeAt(0) - 64, 0) - 1;
+    /** "Página1!C2" → { row: 1, col: 2 }; "Página1!A2:E2" → { row: 1, col: 0 }; "Página1!A:Z" → { row: null }. */
+    const parseRange = (range: string) => {
+        const m = range.split('!')[1].match(/^([A-Z]+)(\d+)?/)!;
+        return { row: m[2] ? Number(m[2]) - 1 : null, col: colIndex(m[1]) };
+    };
+
+    const sheets = {
+        spreadsheets: {
+            values: {
+                get: vi.fn(async ({ range }: { range: string }) => {
+                    const { row } = parseRange(range);
+                    const values = row === null ? state.rows : [state.rows[row] || []];
+                    return { data: { values: values.map((r) => [...r]) } };
+                }),
+                update: vi.fn(async ({ range, requestBody }: { range: string; requestBody: { values: string[][] } }) => {
+                    const { row, col } = parseRange(range);
+                    state.rows[row!][col] = requestBody.values[0][0];
+                    return { data: {} };
+                }),
+                append: vi.fn(async ({ requestBody }: { requestBody: { values: string[][] } }) => {
+                    state.rows.push([...requestBody.values[0]]);
+                    return { data: { updates: { updatedRange: `Página1!A${state.rows.length}:E${state.rows.length}` } } };
+                }),
+                clear: vi.fn(async ({ range }: { range: string }) => {
+                    const { row } = parseRange(range);
+                    state.rows[row!] = state.rows[row!].map(() => '');
+                    return { data: {} };
+                }),
+            },
+        },
+    };
+    const calendar = {
+        events: {
+            list: vi.fn(async () => ({ data: { items: [] } })),
+            insert: vi.fn(async ({ requestBody }: { requestBody: Record<string, unknown> }) => ({
+                data: { ...requestBody, id: `evt-${state.nextEventId++}` },
+            })),
+            delete: vi.fn(async () => ({ data: {} })),
+        },
+    };
+    return { state, sheets, calendar };
+});
+
+vi.mock('@/lib/google', () => ({ sheets: google.sheets, calendar: google.calendar }));
+
+// Sem histórico na Analytics: o turno usa só o texto em tempo real (input.text)
+vi.mock('@/lib/moveo', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('@/lib/moveo')>()),
+    fetchSessionMessages: vi.fn(async () => []),
+}));
+
+import { POST } from './route';
+
+const AUDIT_FILE = path.join(os.tmpdir(), `audit-editData-test-${process.pid}.jsonl`);
+const HEADER = ['ID', 'Nome', 'Telefone', 'Email', 'CPF'];
+const ANA = ['ana-uuid', 'Ana Souza', '+5511999990000', 'ana@empresa.com', ''];
+const BRUNO = ['bruno-uuid', 'Bruno Lima', '+5511911112222', 'bruno@empresa.com', ''];
+
+let sessionId = '';
+let session: Record<string, unknown> = {};
+let sessionCount = 0;
+
+/** Um turno do chat: manda a mensagem com as variáveis da sessão e aplica as que voltarem (como a Moveo). */
+async function send(text: string): Promise<string> {
+    const req = new NextRequest('http://localhost/api/editData', {
+        method: 'POST',
+        body: JSON.stringify({ input: { text }, context: { session_id: sessionId, session_variables: session } }),
+    });
+    const res = await POST(req);
+    const json = await res.json();
+    Object.assign(session, json.output.session_variables);
+    return json.output.live_instructions.edit;
+}
+
+beforeAll(() => {
+    process.env.INSTRUCTION_EXTRACTOR = 'rules';
+    process.env.EXTRACTOR_FIXTURES_PATH = path.resolve(__dirname, '../../../fixtures/extractor.json');
+    process.env.AUDIT_BACKEND = 'file';
+    process.env.AUDIT_FILE_PATH = AUDIT_FILE;
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+beforeEach(async () => {
+    google.state.rows = [[...HEADER], [...ANA], [...BRUNO]];
+    vi.clearAllMocks();
+    // Sessão nova por teste: confirmações pendentes e o diário de desfazer são por sessão
+    sessionId = `sessao-teste-${++sessionCount}`;
+    session = {
+        user_name: 'Ana Souza',
+        user_email: 'ana@empresa.com',
+        user_phone: '+5511999990000',
+        user_timezone: 'America/Sao_Paulo',
+    };
+    await fs.writeFile(AUDIT_FILE, '', 'utf8');
+});
+
+afterAll(async () => {
+    await fs.rm(AUDIT_FILE, { force: true });
+});
+
+describe('editData: confirmação em duas etapas', () => {
+    it('pergunta antes de alterar e grava só depois do "sim"', async () => {
+        const asked = await send('muda meu telefone para (11) 98888-7777');
+        expect(asked).toContain('Confirma alterar seu telefone para +5511988887777?');
+        expect(asked).toContain('Responda "sim"');
+        expect(session.pending_action_token).toBeTruthy();
+        expect(google.state.rows[1][2]).toBe('+5511999990000');
+
+        const done = await send('sim');
+        expect(done).toBe('Pronto, Ana Souza! Atualizei seu telefone para +5511988887777.');
+        expect(google.state.rows[1][2]).toBe('+5511988887777');
+        expect(session.user_phone).toBe('+5511988887777');
+        expect(session.pending_action_token).toBe('');
+    });
+
+    it('registra o pedido original, e não o "sim", como atendido', async () => {
+        await send('muda meu telefone para (11) 98888-7777');
+        await send('sim');
+
+        const fulfilled = JSON.parse(String(session.edit_fulfilled));
+        expect(fulfilled.at(-1).request).toBe('muda meu telefone para (11) 98888-7777');
+    });
+
+    it('audita a célula pelo ID da linha', async () => {
+        await send('muda meu telefone para (11) 98888-7777');
+        await send('sim');
+
+        const entries = (await fs.readFile(AUDIT_FILE, 'utf8')).split('\n').filter(Boolean).map((line) => JSON.parse(line));
+        expect(entries).toMatchObject([
+            { action: 'update_phone', target: 'Página1!id:ana-uuid/telefone', old_value: '+5511999990000', new_value: '+5511988887777' },
+        ]);
+    });
+
+    it('"não" cancela sem alterar nada', async () => {
+        await send('muda meu telefone para (11) 98888-7777');
+        expect(await send('não')).toBe('Tudo bem, cancelei. Nada foi alterado.');
+        expect(google.state.rows[1][2]).toBe('+5511999990000');
+    });
+
+    it('recusa um identifier que aponta para o cadastro de outra pessoa', async () => {
+        await send('muda o telefone da linha de bruno@empresa.com para +5511977776666');
+        expect(await send('sim')).toBe('Só posso alterar o seu próprio cadastro.');
+        expect(google.state.rows[1][2]).toBe('+5511999990000');
+        expect(google.state.rows[2][2]).toBe('+5511911112222');
+    });
+});
+
+describe('editData: desfazer', () => {
+    it('restaura a célula e a variável de sessão', async () => {
+        await send('muda meu telefone para (11) 98888-7777');
+        await send('sim');
+
+        const undone = await send('desfaz');
+        expect(undone).toContain('Pronto, desfiz a última alteração');
+        expect(google.state.rows[1][2]).toBe('+5511999990000');
+        expect(session.user_phone).toBe('+5511999990000');
+    });
+
+    it('sem alteração recente na sessão, avisa e não mexe na planilha', async () => {
+        expect(await send('desfaz')).toBe('Não encontrei nenhuma alteração recente para desfazer.');
+        expect(google.sheets.spreadsheets.values.update).not.toHaveBeenCalled();
+    });
+
+    it('não desfaz se a célula mudou depois da edição', async () => {
+        await send('muda meu telefone para (11) 98888-7777');
+        await send('sim');
+        google.state.rows[1][2] = '+5511955554444'; // alterado direto na planilha
+
+        expect(await send('desfaz')).toBe('A célula foi alterada depois da edição; não é seguro desfazer.');
+        expect(google.state.rows[1][2]).toBe('+5511955554444');
+    });
+});
+
+describe('editData: pedido incompleto (clarify)', () => {
+    it('pergunta o que falta e completa o pedido com a resposta do próximo turno', async () => {
+        const question = await send('marca uma reunião');
+        expect(question).toContain('Para quando marco a reunião?');
+        expect(JSON.parse(String(session.pending_clarify))).toMatchObject({
+            intent: 'create_event',
+            missing: ['event.start'],
+            partial: { event: { summary: 'reunião' } },
+        });
+        expect(google.calendar.events.insert).not.toHaveBeenCalled();
+
+        const created = await send('2030-01-15 às 10:00');
+        expect(created).toBe('Evento criado: reunião (evt-1).');
+        expect(session.pending_clarify).toBe('');
+        expect(google.calendar.events.insert).toHaveBeenCalledTimes(1);
+        expect(google.calendar.events.insert.mock.calls[0][0].requestBody).toMatchObject({
+            summary: 'reunião',
+            start: { dateTime: '2030-01-15T10:00:00-03:00', timeZone: 'America/Sao_Paulo' },
+            end: { dateTime: '2030-01-15T11:00:00-03:00', timeZone: 'America/Sao_Paulo' },
+        });
+    });
+});
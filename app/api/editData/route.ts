@@ -1,284 +1,220 @@
 // app/api/editData/route.ts
-import { NextRequest, NextResponse } from "next/server";
-import { sheets, calendar } from '@/lib/google';
-import { getEditInstruction } from '@/lib/openai';
+import { createHash, randomUUID } from "crypto";
+import { NextRequest } from "next/server";
+import type { calendar_v3 } from "googleapis";
+import { calendar } from '@/lib/google';
+import { getEditInstruction, resolveEventTimes } from '@/lib/instructionExtractor';
+import { clarifyMissingFields, instructionSchema, type ClarifyInstruction, type Instruction } from '@/lib/instructionSchema';
+import {
+    defaultEventEnd,
+    formatShortDate,
+    formatShortDateTime,
+    formatTime,
+    parseDateRange,
+    parseZonedDateTime,
+    zonedTimeToUtc,
+} from '@/lib/dates';
+import { computeFreeSlots, fetchBusyBlocks, suggestAlternativeSlots } from '@/lib/availability';
+import {
+    classifyConfirmation,
+    clearPendingAction,
+    getPendingAction,
+    requiresConfirmation,
+    savePendingAction,
+} from '@/lib/pendingActions';
+import {
+    buildRecurrence,
+    continueRecurrence,
+    describeRecurrence,
+    truncateRecurrence,
+    type RecurrenceScope,
+} from '@/lib/recurrence';
+import { pseudonymizeAudit, recordAudit, type AuditEntry } from '@/lib/audit';
+import { runOnce } from '@/lib/idempotency';
+import { verifyWebhookRequest } from '@/lib/webhookAuth';
+import { fetchSessionMessages, sessionIdFromBody, type MoveoMessage } from '@/lib/moveo';
+import { buildConversationWindow, parseFulfilled, rememberFulfilled } from '@/lib/conversationWindow';
+import { LIVE_INSTRUCTION_KEYS, moveoResponse } from '@/lib/moveoResponse';
+import {
+    FIELD_REGISTRY,
+    checkFieldValue,
+    findFieldColumn,
+    getFieldDefinition,
+    type FieldDefinition,
+} from '@/lib/fieldRegistry';
+import {
+    SHEET_NAME,
+    appendSheetRow,
+    clearSheetRow,
+    findRowIndexByIdentifier,
+    readSheetAll,
+    readUserRecord,
+    rowIdOf,
+    updateSheetCell,
+    verifyRowIdentity,
+    type UserIdentity,
+} from '@/lib/userSheet';
+import { botEventProperties, botOwnerKey, listBotEvents } from '@/lib/botEvents';
+import { discardEdits, popLastEdit, recordEdit, snapshotEvent, type EventSnapshot, type UndoStep } from '@/lib/undoJournal';
 
 /**
  * Webhook de EDIÇÃO para Moveo:
  * 1) Busca histórico completo da conversa (Moveo Analytics GraphQL).
- * 2) Chama IA (getEditInstruction) para extrair a intenção.
- * 3) Executa ação em Google Sheets ou Google Calendar.
- * 4) Retorna no formato Moveo: context.live_instructions + context.session_variables + output.responses
+ * 2) Chama IA (getEditInstruction) para extrair as intenções (uma ou mais ações, em ordem).
+ * 3) Executa as ações em Google Sheets ou Google Calendar (ações com depends_on_previous
+ *    são puladas se a anterior não foi concluída).
+ * 4) Retorna no formato Moveo ('@/lib/moveoResponse'): output.live_instructions.edit + output.session_variables
+ *    (telefone/e-mail/nome atualizados voltam para a sessão, mantendo as outras rotas em sincronia).
  *
  * ENV esperadas (seu .env):
- * - MOVEO_ANALYTICS_API_KEY
- * - MOVEO_ACCOUNT_ID
+ * - MOVEO_ANALYTICS_API_KEY, MOVEO_ACCOUNT_ID (ver '@/lib/moveo')
  * - GOOGLE_CREDENTIALS_PATH (usada no seu google.ts)
  * - SHEET_ID
  * - SHEET_RANGE (ex.: "Página1!A:D")
  * - (opcional) DEFAULT_TZ (fallback "America/Sao_Paulo")
+ * - (opcional) STABLE_MESSAGE_DELAY_MS (padrão 700; intervalo da dupla leitura do histórico)
+ * - (opcional) IDEMPOTENCY_TTL_SECONDS (ver '@/lib/idempotency')
+ * - WEBHOOK_SECRET (ver '@/lib/webhookAuth'; chamada sem assinatura/segredo válido → 401, antes de Google/IA)
  */
 
 //
 // ================ Config & tipos ================
 //
-const MOVEO_LOGS_URL = "https://logs.moveo.ai/v1/graphql"; // endpoint Analytics GraphQL
-const MOVEO_ACCOUNT_ID = process.env.MOVEO_ACCOUNT_ID!;
-const MOVEO_ANALYTICS_API_KEY = process.env.MOVEO_ANALYTICS_API_KEY!;
-
-const SHEET_ID = process.env.SHEET_ID!;
-const SHEET_RANGE = (process.env.SHEET_RANGE || "Página1!A:Z")!;
 const DEFAULT_TZ = process.env.DEFAULT_TZ || "America/Sao_Paulo";
+const STABLE_MESSAGE_DELAY_MS = Number(process.env.STABLE_MESSAGE_DELAY_MS ?? 700);
+const LIVE_KEY = LIVE_INSTRUCTION_KEYS.edit;
 
-type MoveoMessage = {
-    event?: string;
-    time?: string;
-    agent_id?: string | null;
-    message?: {
-        text?: string | null;
-        responses?: Array<{ text?: string | null; type?: string | null }> | null;
-    } | null;
-};
+/** Erro cuja mensagem foi escrita para o usuário; as demais exceções só aparecem no log. */
+class UserFacingError extends Error {}
 
-type Instruction =
-    | {
-        action:
-        | "update_phone"
-        | "update_email"
-        | "update_name"
-        | "update_sheet_field"
-        | "create_event"
-        | "update_event"
-        | "delete_event";
-        // Sheets
-        new_value?: string;
-        field?: string;
-        identifier?: { key: string; value: string }; // como localizar a linha
-        // Calendar
-        event?: {
-            eventId?: string;
-            summary?: string;
-            description?: string;
-            location?: string;
-            attendees?: string[]; // emails
-            start?: string; // ISO
-            end?: string; // ISO
-            timezone?: string; // IANA
-            date?: string; // yyyy-mm-dd (ajuda para busca)
-            calendarId?: string; // se seu google.ts aceitar direcionar por e-mail (da planilha)
-        };
-    }
-    | Record<string, any>;
+/** Variáveis de sessão devolvidas à Moveo (as conhecidas tipadas; as demais livres). */
+type SessionPatch = {
+    last_event_id?: string | null; // último evento criado/alterado/restaurado pelo bot
+    [key: string]: any;
+};
 
 //
-// ================ Utilitários ================
+// ================ Histórico estável (Moveo Analytics: '@/lib/moveo') ================
 //
-function onlyDigits(s?: string | null) {
-    return (s || "").replace(/\D+/g, "");
-}
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 
-function normalizeHeader(h: any) {
-    return String(h || "")
-        .trim()
-        .toLowerCase()
-        .replace(/\s+/g, "_");
+function lastUserMessageOf(messages: MoveoMessage[]): MoveoMessage | null {
+    return messages.slice().reverse().find((m) => m.event === "message:received") || null;
 }
 
-function extractSheetName(range: string): string {
-    const idx = range.indexOf("!");
-    return idx >= 0 ? range.slice(0, idx) : "Sheet1";
-}
+/**
+ * Dupla verificação da última mensagem: lê o histórico, espera um pouco e lê de novo.
+ * Se a última mensagem do usuário mudou entre as leituras, vale a mais nova (a segunda).
+ * Se só uma das leituras der certo, usa essa; se as duas falharem, propaga o erro.
+ */
+async function getStableLastMessage(sessionId: string) {
+    const first = await fetchSessionMessages(sessionId).catch((err) => {
+        console.error("✗ Falha na 1ª leitura do histórico:", err?.message);
+        return null;
+    });
+    await delay(STABLE_MESSAGE_DELAY_MS);
+    let messages: MoveoMessage[];
+    try {
+        messages = await fetchSessionMessages(sessionId);
+    } catch (err) {
+        if (!first) throw err;
+        messages = first;
+    }
 
-function columnNumberToLetter(num: number) {
-    let n = num + 1;
-    let s = "";
-    while (n > 0) {
-        const mod = (n - 1) % 26;
-        s = String.fromCharCode(65 + mod) + s;
-        n = Math.floor((n - 1) / 26);
+    const lastUserMessage = lastUserMessageOf(messages);
+    const before = first ? lastUserMessageOf(first) : null;
+    if (before && lastUserMessage && (before.id || before.time) !== (lastUserMessage.id || lastUserMessage.time)) {
+        console.log("↻ Última mensagem mudou entre as leituras do histórico; usando a mais nova.");
     }
-    return s;
+    return { messages, lastUserMessage };
 }
 
-function buildPlainConversation(messages: MoveoMessage[]): string {
-    return messages
-        .map((m) => {
-            if (m.event === "message:received") {
-                return `U: ${m.message?.text ?? ""}`;
-            }
-            if (m.event === "message:brain_send") {
-                const responses = m.message?.responses;
-                const joined = Array.isArray(responses)
-                    ? responses
-                        .map((r: any) => r?.text || (Array.isArray(r?.texts) ? r.texts.join(" ") : ""))
-                        .filter(Boolean)
-                        .join(" ")
-                    : "";
-                return joined ? `A: ${joined}` : "";
-            }
-            return "";
-        })
-        .filter(Boolean)
-        .join("\n");
+/**
+ * Identificador da mensagem que disparou o webhook (id da Moveo, senão o horário), para a idempotência.
+ * null se o histórico ainda não tem a mensagem em tempo real (a última registrada é de outro turno):
+ * - o texto não bate com `input.text`;
+ * - o bot já respondeu depois dela, ou ela é anterior à última ação concluída (`edit_last_done_at`) —
+ *   mesmo com o texto igual (ex.: "desfaz" duas vezes), é a mensagem de um turno anterior.
+ */
+function userMessageKey(
+    messages: MoveoMessage[],
+    lastUserMessage: MoveoMessage | null,
+    realTimeText: string,
+    lastDoneAt?: string
+): string | null {
+    if (!lastUserMessage) return null;
+    if (realTimeText && (lastUserMessage.message?.text || "").trim() !== realTimeText) return null;
+    const repliedAfter = messages.slice(messages.indexOf(lastUserMessage) + 1).some((m) => m.event !== "message:received");
+    if (repliedAfter) return null;
+    const sentAt = lastUserMessage.time ? Date.parse(lastUserMessage.time) : NaN;
+    if (lastDoneAt && !(sentAt > Date.parse(lastDoneAt))) return null;
+    return lastUserMessage.id || lastUserMessage.time || null;
 }
 
-//
-// ================ Moveo Analytics: buscar histórico ================
-//
-async function fetchSessionMessages(sessionId: string): Promise<MoveoMessage[]> {
-    const query = `
-    query SessionContentV2($sessionId: String) {
-        rows: log_session_content_v2(args: { session_id: $sessionId }) {
-            messages
-            brain_id
-            brain_parent_id
-            avg_confidence
-            brain_version
-            channel
-            channel_user_id
-            desk_id
-            end_time
-            expired_time
-            external_user_id
-            integration_id
-            is_contained
-            is_covered
-            is_test
-            min_confidence
-            participated_brains
-            participated_collections
-            participated_agents
-            rating
-            feedback
-            session_id
-            start_time
-            tags
-            rule_ids
-            total_user_messages
-            user_id
-            user_name
-            user_email
-        }
-    }
-  `;
-    const res = await fetch(MOVEO_LOGS_URL, {
-        method: "POST",
-        headers: {
-            "Content-Type": "application/json",
-            Authorization: `apikey ${MOVEO_ANALYTICS_API_KEY}`,
-            "X-Moveo-Account-Id": MOVEO_ACCOUNT_ID,
-        },
-        body: JSON.stringify({ query, variables: { sessionId } }),
-    });
-    if (!res.ok) {
-        const txt = await res.text();
-        throw new Error(`Analytics request failed (${res.status}): ${txt}`);
-    }
-    const json = await res.json();
-    const messages: MoveoMessage[] = json?.data?.rows?.[0]?.messages ?? [];
-    return messages;
+/**
+ * Chave de reserva quando o histórico ainda não tem a mensagem (Analytics atrasada): hash do texto em tempo
+ * real com as variáveis de sessão recebidas. Um retry chega com o mesmo corpo; uma nova mensagem com o mesmo
+ * texto vem depois de o bot ter respondido, com outras variáveis (ex.: `edit_last_done_at`).
+ */
+function fallbackMessageKey(realTimeText: string, sessionVariables: unknown): string {
+    const digest = createHash("sha256").update(`${realTimeText}\n${JSON.stringify(sessionVariables ?? {})}`).digest("hex");
+    return `text:${digest.slice(0, 32)}`;
 }
 
 //
 // ================ Google Sheets helpers ================
 //
-async function readSheetAll() {
-    if (!SHEET_ID) throw new Error("SHEET_ID ausente.");
-    const read = await sheets.spreadsheets.values.get({
-        spreadsheetId: SHEET_ID,
-        range: SHEET_RANGE,
-    });
-    const values: string[][] = (read.data.values as any) || [];
-    return values;
-}
-
-function findRowIndexByIdentifier(
-    values: string[][],
-    headers: string[],
-    identifier?: { key: string; value: string },
-    fallback: { email?: string; phone?: string; name?: string } = {}
-): number {
-    const candidates = [];
-    if (identifier?.key && identifier?.value) {
-        candidates.push({ key: normalizeHeader(identifier.key), value: identifier.value });
-    }
-    if (fallback.email) candidates.push({ key: "email", value: fallback.email });
-    if (fallback.phone) {
-        candidates.push({ key: "telefone", value: fallback.phone });
-        candidates.push({ key: "phone", value: fallback.phone });
-    }
-    if (fallback.name) candidates.push({ key: "nome", value: fallback.name });
-
-    for (const cand of candidates) {
-        const col = headers.findIndex((h) => h === normalizeHeader(cand.key));
-        if (col >= 0) {
-            const targetDigits = onlyDigits(cand.value);
-            for (let i = 1; i < values.length; i++) {
-                const cell = String(values[i]?.[col] ?? "");
-                if (headers[col].includes("telefone") || headers[col].includes("phone")) {
-                    if (targetDigits && onlyDigits(cell) === targetDigits) return i;
-                } else {
-                    if (cell.trim().toLowerCase() === String(cand.value).trim().toLowerCase()) return i;
-                }
-            }
-        }
-    }
-    return -1;
-}
-
-function findColumnIndexByField(headers: string[], field?: string): number {
-    if (!field) return -1;
-    const wanted = normalizeHeader(field);
-    let idx = headers.findIndex((h) => h === wanted);
-    if (idx >= 0) return idx;
-
-    const alias: Record<string, string[]> = {
-        telefone: ["telefone", "phone", "celular", "mobile", "user_phone", "telefone_do_usuario"],
-        email: ["email", "e-mail", "mail", "user_email"],
-        nome: ["nome", "name", "user_name", "full_name"],
-    };
-    for (const k of Object.keys(alias)) {
-        if (wanted.includes(k)) {
-            for (const a of alias[k]) {
-                idx = headers.findIndex((h) => h === a);
-                if (idx >= 0) return idx;
-            }
-        }
-    }
-    return -1;
-}
-
-async function updateSheetCell(rowIndex: number, colIndex: number, newValue: string) {
-    const sheetName = extractSheetName(SHEET_RANGE);
-    const colLetter = columnNumberToLetter(colIndex);
-    const rangeA1 = `${sheetName}!${colLetter}${rowIndex + 1}`;
-    await sheets.spreadsheets.values.update({
-        spreadsheetId: SHEET_ID,
-        range: rangeA1,
-        valueInputOption: "RAW",
-        requestBody: { values: [[newValue]] },
-    });
-}
+// Quantas vezes relocalizamos a linha quando ela muda de lugar entre a leitura e a gravação
+const MAX_ROW_RELOCATE_ATTEMPTS = 2;
 
+/**
+ * Atualiza uma célula da linha do usuário com verificação otimista: relê a linha logo antes de gravar
+ * e, se ela não é mais da mesma pessoa (ou a célula mudou), relocaliza e tenta de novo.
+ * A linha vem sempre da identidade da sessão. O `identifier` da IA só é conferido: se aponta para
+ * outra linha, nada é gravado; se não acha ninguém, é ignorado.
+ * @throws UserFacingError se o `identifier` for de outra pessoa ou a linha continuar instável (nada é gravado).
+ */
 async function applySheetUpdate(params: {
-    field: string;
+    field: FieldDefinition;
     newValue: string;
+    identity: UserIdentity;
     identifier?: { key: string; value: string };
-    fallbackIdentity: { email?: string; phone?: string; name?: string };
 }) {
-    const values = await readSheetAll();
-    if (!values.length) throw new Error("Planilha vazia ou intervalo inválido.");
+    for (let attempt = 0; attempt <= MAX_ROW_RELOCATE_ATTEMPTS; attempt++) {
+        // 1ª tentativa pode usar o cache (a linha é conferida logo abaixo); as seguintes leem da planilha
+        const values = await readSheetAll({ fresh: attempt > 0 });
+        if (!values.length) throw new Error("Planilha vazia ou intervalo inválido.");
 
-    const headers = values[0].map(normalizeHeader);
-    const rowIndex = findRowIndexByIdentifier(values, headers, params.identifier, params.fallbackIdentity);
-    if (rowIndex < 0) throw new Error("Linha do usuário não encontrada na planilha.");
+        const rowIndex = findRowIndexByIdentifier(values, undefined, params.identity);
+        if (rowIndex < 0) throw new UserFacingError("Não encontrei seu cadastro na planilha.");
+        if (params.identifier) {
+            const claimedRow = findRowIndexByIdentifier(values, params.identifier);
+            if (claimedRow >= 0 && claimedRow !== rowIndex) {
+                console.warn(`⚠️  identifier "${params.identifier.key}" aponta para outra linha (${claimedRow + 1}); recusado.`);
+                throw new UserFacingError("Só posso alterar o seu próprio cadastro.");
+            }
+        }
 
-    const colIndex = findColumnIndexByField(headers, params.field);
-    if (colIndex < 0) throw new Error(`Coluna para o campo "${params.field}" não encontrada.`);
+        const colIndex = findFieldColumn(values[0], params.field);
+        if (colIndex < 0) throw new Error(`Coluna "${params.field.header}" não encontrada na planilha.`);
 
-    const oldVal = values[rowIndex]?.[colIndex] ?? "";
-    await updateSheetCell(rowIndex, colIndex, params.newValue);
-    return { row: rowIndex + 1, col: colIndex + 1, old: String(oldVal), updated: params.newValue };
+        const oldVal = String(values[rowIndex]?.[colIndex] ?? "");
+        const current = await verifyRowIdentity(values, rowIndex);
+        if (!current || (current[colIndex] ?? "") !== oldVal) {
+            console.warn(`⚠️  Linha ${rowIndex + 1} mudou durante a edição (tentativa ${attempt + 1}); relocalizando.`);
+            continue;
+        }
+        await updateSheetCell(rowIndex, colIndex, params.newValue);
+        return {
+            row: rowIndex + 1,
+            col: colIndex + 1,
+            rowId: rowIdOf(values[0], current) || undefined,
+            field: params.field.key,
+            old: oldVal,
+            updated: params.newValue,
+        };
+    }
+    throw new UserFacingError("A planilha mudou enquanto eu fazia a alteração e nada foi gravado. Tente novamente em instantes.");
 }
 
 //
@@ -293,6 +229,8 @@ async function createCalendarEvent(ev: {
     end: string;
     timezone?: string;
     calendarId?: string;
+    recurrence?: string[]; // linhas RRULE (ver '@/lib/recurrence')
+    owner?: string; // dono do evento (marcação do bot, ver '@/lib/botEvents')
 }) {
     const tz = ev.timezone || DEFAULT_TZ;
     const attendees = (ev.attendees || []).map((email) => ({ email }));
@@ -305,6 +243,8 @@ async function createCalendarEvent(ev: {
             attendees,
             start: { dateTime: ev.start, timeZone: tz },
             end: { dateTime: ev.end, timeZone: tz },
+            recurrence: ev.recurrence,
+            extendedProperties: botEventProperties(ev.owner || ""),
         },
     }); // events.insert cria evento. :contentReference[oaicite:3]{index=3}
     return res.data;
@@ -331,6 +271,92 @@ async function patchCalendarEvent(eventId: string, patch: any, calendarId?: stri
     }); // events.patch atualiza campos do evento. :contentReference[oaicite:4]{index=4}
     return res.data;
 }
+
+//
+// ================ Séries recorrentes ================
+//
+type SeriesInfo = {
+    event: any; // ocorrência (ou evento simples) localizada
+    master?: any; // evento "pai" da série, se houver
+    instanceStart?: Date; // início original da ocorrência
+};
+
+async function getSeriesInfo(eventId: string, calendarId?: string): Promise<SeriesInfo> {
+    const event = (await calendar.events.get({ calendarId: calendarId || "primary", eventId })).data;
+    const masterId = event.recurringEventId || (event.recurrence?.length ? event.id : undefined);
+    const master = masterId && masterId !== event.id
+        ? (await calendar.events.get({ calendarId: calendarId || "primary", eventId: masterId })).data
+        : masterId ? event : undefined;
+    const original = event.originalStartTime?.dateTime || event.start?.dateTime;
+    return { event, master, instanceStart: original ? new Date(original) : undefined };
+}
+
+/** Quantas ocorrências da série começam antes de `before`. */
+async function countPriorInstances(masterId: string, before: Date, calendarId?: string) {
+    const res = await calendar.events.instances({
+        calendarId: calendarId || "primary",
+        eventId: masterId,
+        timeMax: before.toISOString(),
+        maxResults: 2500,
+    });
+    return (res.data.items || []).length;
+}
+
+/**
+ * Converte um patch pensado para a ocorrência em um patch para a série inteira:
+ * mudanças de horário são aplicadas como deslocamento (mesmo delta) sobre o início/fim da série.
+ */
+function shiftPatchToMaster(patch: any, series: SeriesInfo, timezone: string) {
+    const masterPatch = { ...patch };
+    const shift = (field: "start" | "end") => {
+        const base = series.master?.[field]?.dateTime;
+        const instanceValue = series.event?.[field]?.dateTime;
+        if (!patch[field] || !base || !instanceValue) return;
+        const delta = parseZonedDateTime(patch[field].dateTime, timezone).getTime() - new Date(instanceValue).getTime();
+        masterPatch[field] = { dateTime: new Date(new Date(base).getTime() + delta).toISOString(), timeZone: timezone };
+    };
+    shift("start");
+    shift("end");
+    return masterPatch;
+}
+
+/**
+ * "Esta e as seguintes": encerra a série antes da ocorrência e cria uma nova série a partir dela.
+ * @returns O evento resultante e os passos para desfazer a operação.
+ */
+async function splitSeries(series: SeriesInfo, patch: any, timezone: string, calendarId?: string) {
+    const master = series.master;
+    const masterUndo: UndoStep = { kind: "event_patched", eventId: master.id, calendarId, previous: snapshotEvent(master) };
+    const prior = await countPriorInstances(master.id, series.instanceStart!, calendarId);
+    if (prior === 0) {
+        // A ocorrência é a primeira da série: equivale a alterar todas
+        const event = await patchCalendarEvent(master.id, shiftPatchToMaster(patch, series, timezone), calendarId);
+        return { event, steps: [masterUndo] };
+    }
+    await patchCalendarEvent(master.id, { recurrence: truncateRecurrence(master.recurrence || [], series.instanceStart!) }, calendarId);
+    const res = await calendar.events.insert({
+        calendarId: calendarId || "primary",
+        requestBody: {
+            summary: patch.summary ?? master.summary,
+            description: patch.description ?? master.description,
+            location: patch.location ?? master.location,
+            attendees: master.attendees,
+            start: patch.start || series.event.start,
+            end: patch.end || series.event.end,
+            recurrence: patch.recurrence || continueRecurrence(master.recurrence || [], prior),
+            extendedProperties: master.extendedProperties,
+        },
+    });
+    const steps: UndoStep[] = [masterUndo, { kind: "event_created", eventId: res.data.id!, calendarId }];
+    return { event: res.data, steps };
+}
+
+const SCOPE_LABELS: Record<RecurrenceScope, string> = {
+    this: "somente esta ocorrência",
+    following: "esta e as seguintes",
+    all: "toda a série",
+};
+
 async function deleteCalendarEvent(eventId: string, calendarId?: string) {
     await calendar.events.delete({
         calendarId: calendarId || "primary",
@@ -339,309 +365,1389 @@ async function deleteCalendarEvent(eventId: string, calendarId?: string) {
 }
 
 //
-// ================ Handler principal ================
+// ================ Conflitos de agenda ================
 //
-export async function POST(req: NextRequest) {
-    console.log("✓ Webhook editData recebido.");
+const SUGGESTION_WINDOW_DAYS = 7; // até onde procurar horários alternativos
+
+/** Eventos que se sobrepõem ao intervalo [start, end) (ignora eventos "livres" e o próprio evento). */
+async function findConflicts(params: { calendarId?: string; start: Date; end: Date; ignoreEventId?: string }) {
+    const items = await listCalendarEvents({
+        calendarId: params.calendarId,
+        timeMin: params.start.toISOString(),
+        timeMax: params.end.toISOString(),
+        maxResults: 10,
+    });
+    return items.filter(
+        (it) =>
+            it.id !== params.ignoreEventId &&
+            it.status !== "cancelled" &&
+            it.transparency !== "transparent" &&
+            !!it.start?.dateTime // eventos de dia inteiro não bloqueiam horário
+    );
+}
+
+/** Mensagem de conflito com os três horários livres mais próximos, de mesma duração. */
+async function buildConflictReply(params: {
+    conflict: { summary?: string | null; start?: { dateTime?: string | null } | null; end?: { dateTime?: string | null } | null };
+    calendarId?: string;
+    start: Date;
+    end: Date;
+    timezone: string;
+}) {
+    const { conflict, start, end, timezone } = params;
+    const durationMinutes = Math.round((end.getTime() - start.getTime()) / 60000);
+    const conflictStart = conflict.start?.dateTime ? new Date(conflict.start.dateTime) : start;
+    const conflictEnd = conflict.end?.dateTime ? new Date(conflict.end.dateTime) : end;
+
+    let suggestions: { start: Date; end: Date }[] = [];
     try {
-        const body = await req.json().catch(() => ({}));
+        const now = new Date();
+        const timeMin = new Date(Math.max(now.getTime(), start.getTime() - SUGGESTION_WINDOW_DAYS * 86400000));
+        const timeMax = new Date(start.getTime() + SUGGESTION_WINDOW_DAYS * 86400000);
+        const busy = await fetchBusyBlocks({ calendarId: params.calendarId || "primary", timeMin, timeMax, timeZone: timezone });
+        const freeSlots = computeFreeSlots({ busy, timeMin, timeMax, timeZone: timezone, minMinutes: durationMinutes });
+        suggestions = suggestAlternativeSlots({ freeSlots, around: start, durationMinutes, count: 3 });
+    } catch (err: any) {
+        console.error("✗ Falha ao calcular horários alternativos:", err?.message);
+    }
 
-        // Extrai sessionId e variáveis úteis
-        const sessionId: string | undefined =
-            body?.context?.session_id ||
-            body?.session_id ||
-            body?.context?.$sys_session ||
-            body?.context?.["$sys-session"] ||
-            body?.["$sys-session"];
+    const conflictText =
+        `"${conflict.summary || "Sem título"}" em ${formatShortDateTime(conflictStart, timezone)}–${formatTime(conflictEnd, timezone)}`;
+    const suggestionLines = suggestions
+        .map((s, i) => `${i + 1}. ${formatShortDateTime(s.start, timezone)}–${formatTime(s.end, timezone)}`)
+        .join("\n");
 
-        const lastUserMessageRealTime = body.input?.text?.trim() || ""; // Capturamos a mensagem em tempo real
+    const outputText =
+        `Esse horário conflita com ${conflictText}.` +
+        (suggestions.length
+            ? ` Horários livres mais próximos:\n${suggestionLines}\nQuer usar um deles ou prefere marcar mesmo assim?`
+            : ` Não encontrei horários livres próximos. Quer marcar mesmo assim?`);
+    return { outputText };
+}
 
-        const sessionVars = {
-            user_name:
-                body?.context?.session_variables?.user_name ||
-                body?.context?.$user?.display_name ||
-                "",
-            user_email:
-                body?.context?.session_variables?.user_email ||
-                body?.context?.$user?.email ||
-                "",
-            user_phone: body?.context?.session_variables?.user_phone || "",
-            calendar_email:
-                body?.context?.session_variables?.user_email || "",
-        };
+//
+// ================ Desambiguação de eventos ================
+//
+// Quando a busca por título retorna mais de um evento, a lista numerada fica salva nas
+// session_variables e a próxima mensagem do usuário escolhe por número ("2") ou data ("o de quarta").
+type EventCandidate = { id: string; summary: string; start: string; calendarId?: string };
 
-        // 1) Buscar histórico
-        let messages: MoveoMessage[] = [];
-        if (sessionId) {
-            try {
-                messages = await fetchSessionMessages(sessionId);
-            } catch (err: any) {
-                console.error("✗ Falha ao buscar SessionContentV2:", err?.message);
+const ORDINALS: Record<string, number> = { primeiro: 1, primeira: 1, segundo: 2, terceiro: 3, terceira: 3 };
+
+function parseSessionJson<T>(value: unknown): T | null {
+    if (!value) return null;
+    if (typeof value === "object") return value as T;
+    try {
+        return JSON.parse(String(value)) as T;
+    } catch {
+        return null;
+    }
+}
+
+function toCandidates(items: any[], calendarId?: string): EventCandidate[] {
+    return items
+        .filter((it) => it?.id)
+        .map((it) => ({
+            id: it.id,
+            summary: it.summary || "Sem título",
+            start: it.start?.dateTime || it.start?.date || "",
+            calendarId,
+        }));
+}
+
+function formatCandidateList(candidates: EventCandidate[], timeZone: string): string {
+    return candidates
+        .map((c, i) => {
+            const start = new Date(c.start);
+            const when = c.start.length > 10
+                ? `${formatShortDate(start, timeZone)} ${formatTime(start, timeZone)}`
+                : `${c.start.slice(8, 10)}/${c.start.slice(5, 7)} (dia inteiro)`;
+            return `${i + 1}. ${when} — ${c.summary}`;
+        })
+        .join("\n");
+}
+
+/** Resposta que pede para o usuário escolher um dos eventos encontrados. */
+function buildDisambiguationReply(candidates: EventCandidate[], instruction: Instruction, verb: string, timeZone: string) {
+    const list = formatCandidateList(candidates, timeZone);
+    return {
+        outputText: `Encontrei ${candidates.length} eventos parecidos. Qual deles você quer ${verb}?\n${list}\nResponda com o número ou a data.`,
+        sessionPatch: {
+            pending_event_candidates: JSON.stringify(candidates),
+            pending_event_instruction: JSON.stringify(instruction),
+        },
+    };
+}
+
+/** Interpreta a resposta do usuário ("2", "o primeiro", "o de quarta", "o das 14h"), com datas no fuso dele. */
+function pickCandidate(text: string, candidates: EventCandidate[], timeZone: string): EventCandidate | null {
+    const t = text.trim().toLowerCase();
+    if (!t) return null;
+
+    const num = t.match(/^(?:(?:o|a|op[cç][aã]o|n[uú]mero|evento)\s+)?(\d{1,2})\s*[º°.!]?$/);
+    if (num) return candidates[Number(num[1]) - 1] || null;
+
+    for (const [word, n] of Object.entries(ORDINALS)) {
+        if (new RegExp(`\\b${word}\\b`).test(t)) return candidates[n - 1] || null;
+    }
+    if (/(^|\s)[uú]ltim[oa]\b/.test(t)) return candidates[candidates.length - 1] || null;
+
+    const range = parseDateRange(t, { timeZone });
+    if (!range) return null;
+    const inRange = candidates.filter((c) => {
+        const start = new Date(c.start).getTime();
+        return start >= range.timeMin.getTime() && start < range.timeMax.getTime();
+    });
+    if (inRange.length === 1) return inRange[0];
+
+    // Só horário ("o das 14h"): compara a hora do dia, independente da data
+    if (!inRange.length && range.hasTime) {
+        const wanted = formatTime(range.timeMin, timeZone);
+        const byTime = candidates.filter((c) => c.start.length > 10 && formatTime(new Date(c.start), timeZone) === wanted);
+        if (byTime.length === 1) return byTime[0];
+    }
+    return null;
+}
+
+/** Uma entrada por série: várias ocorrências do mesmo evento recorrente contam como um só candidato. */
+function collapseSeries(items: any[]) {
+    const seen = new Set<string>();
+    return items.filter((it) => {
+        const key = it.recurringEventId || it.id;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+}
+
+/**
+ * Busca eventos pelo título; sem data informada, considera só eventos a partir de agora.
+ * A data (yyyy-mm-dd) é o dia inteiro no fuso do usuário, não o dia em UTC.
+ */
+async function searchEventsBySummary(summary: string, timeZone: string, calendarId?: string, date?: string) {
+    const [year, month, day] = (date || "").split("-").map(Number);
+    const dayStart = date ? zonedTimeToUtc({ year, month, day }, timeZone).toISOString() : new Date().toISOString();
+    const dayEnd = date ? zonedTimeToUtc({ year, month, day: day + 1 }, timeZone).toISOString() : undefined;
+    return listCalendarEvents({
+        calendarId,
+        q: summary,
+        timeMin: dayStart,
+        timeMax: dayEnd,
+        maxResults: 5,
+    });
+}
+
+//
+// ================ Desfazer ================
+//
+/** Campos de um snapshot que podem ser regravados no evento (sem `recurringEventId`, que é do Google). */
+function restorableFields(snapshot: EventSnapshot): calendar_v3.Schema$Event {
+    return {
+        summary: snapshot.summary,
+        description: snapshot.description,
+        location: snapshot.location,
+        attendees: snapshot.attendees ?? undefined,
+        start: snapshot.start ?? undefined,
+        end: snapshot.end ?? undefined,
+        recurrence: snapshot.recurrence ?? undefined,
+        extendedProperties: snapshot.extendedProperties ?? undefined,
+    };
+}
+
+/**
+ * Aplica os passos do diário ao contrário, voltando Sheets/Calendar ao estado anterior.
+ * @returns Patch de sessão com os valores antigos (ex.: telefone anterior).
+ */
+async function undoSteps(steps: UndoStep[]) {
+    const sessionPatch: SessionPatch = {};
+    for (const step of [...steps].reverse()) {
+        switch (step.kind) {
+            case "sheet_update": {
+                // Só restaura se a célula ainda tem o valor que nós gravamos
+                const values = await readSheetAll({ fresh: true });
+                const current = String(values[step.row - 1]?.[step.col - 1] ?? "");
+                if (current !== step.updated) {
+                    throw new UserFacingError("A célula foi alterada depois da edição; não é seguro desfazer.");
+                }
+                await updateSheetCell(step.row - 1, step.col - 1, step.previous);
+                if (step.sessionKey) sessionPatch[step.sessionKey] = step.previous;
+                break;
+            }
+            case "sheet_row_appended": {
+                // Cadastro: só apaga se a linha ainda é exatamente a que inserimos
+                const values = await readSheetAll({ fresh: true });
+                const current = (values[step.row - 1] || []).map((v) => String(v ?? ""));
+                if (step.values.some((v, i) => (current[i] ?? "") !== v)) {
+                    throw new UserFacingError("O cadastro foi alterado depois de criado; não é seguro desfazer.");
+                }
+                await clearSheetRow(step.row - 1, step.values.length);
+                sessionPatch.user_registered = false;
+                break;
+            }
+            case "event_created":
+                await deleteCalendarEvent(step.eventId, step.calendarId);
+                break;
+            case "event_patched":
+                await patchCalendarEvent(step.eventId, restorableFields(step.previous), step.calendarId);
+                break;
+            case "event_deleted": {
+                if (step.snapshot.recurringEventId) {
+                    // Ocorrência de uma série: basta reativar a exceção cancelada
+                    await patchCalendarEvent(step.eventId, { status: "confirmed" }, step.calendarId);
+                } else {
+                    const res = await calendar.events.insert({
+                        calendarId: step.calendarId || "primary",
+                        requestBody: restorableFields(step.snapshot),
+                    });
+                    sessionPatch.last_event_id = res.data.id;
+                }
+                break;
             }
-        } else {
-            console.warn("⚠️  Webhook sem session_id.");
         }
+    }
+    return sessionPatch;
+}
 
-        // 2) Construir a conversa a partir do histórico da API
-        let conversationFromHistory = buildPlainConversation(messages);
+//
+// ================ Auditoria ================
+//
+function describeEvent(ev?: unknown) {
+    return ev ? JSON.stringify(ev) : "";
+}
 
-        // ======================== LÓGICA DE DUPLA VERIFICAÇÃO ========================
-        // Verificamos se a mensagem em tempo real já não está no final do histórico
-        if (lastUserMessageRealTime && !conversationFromHistory.endsWith(`U: ${lastUserMessageRealTime}`)) {
-            // Se não estiver, nós a adicionamos para garantir que a IA tenha o contexto mais recente
-            conversationFromHistory += `\nU: ${lastUserMessageRealTime}`;
-        }
-        const conversation = conversationFromHistory.trim();
-        // ===========================================================================
-
-        // Se a conversa retornar vazia, paramos a execução e avisamos o usuário.
-        if (!conversation || conversation.trim() === '') {
-            console.warn("⚠️  Conversa vazia. Pulando a chamada para a IA da OpenAI.");
-            const errorMessage = "Desculpe, não consegui recuperar o histórico da conversa para processar seu pedido. Por favor, tente novamente.";
-
-            // Retorna uma resposta controlada para a Moveo
-            return NextResponse.json({
-                output: {
-                    responses: [{ type: "text", texts: [errorMessage] }],
-                }
-            }, { status: 200 });
+/**
+ * Alvo de uma linha (ou célula) da planilha na auditoria. Com a coluna `id`, vale o ID da linha
+ * ("Página1!id:<uuid>", célula "Página1!id:<uuid>/telefone"), que não muda quando linhas são inseridas
+ * ou reordenadas; sem ela, o número ("Página1!R5", célula "Página1!R5C2").
+ */
+function sheetAuditTarget(rowId: string | undefined, row: number, cell?: { col: number; field?: string }) {
+    if (rowId) return `${SHEET_NAME}!id:${rowId}${cell ? `/${cell.field || `C${cell.col}`}` : ""}`;
+    return `${SHEET_NAME}!R${row}${cell ? `C${cell.col}` : ""}`;
+}
+
+/**
+ * Converte os passos do diário de desfazer em entradas de auditoria (uma por alteração).
+ * Em um "desfazer", valores antigo/novo aparecem invertidos em relação à edição original.
+ */
+function auditEntriesFromSteps(
+    steps: UndoStep[],
+    params: { action: string; ctx: ActionContext; newEvent?: unknown; undo?: boolean }
+): Array<Omit<AuditEntry, "timestamp">> {
+    return steps.map((step) => {
+        let target = "";
+        let oldValue = "";
+        let newValue = "";
+        switch (step.kind) {
+            case "sheet_update":
+                target = sheetAuditTarget(step.rowId, step.row, { col: step.col, field: step.field });
+                oldValue = step.previous;
+                newValue = step.updated;
+                break;
+            case "sheet_row_appended":
+                target = sheetAuditTarget(step.rowId, step.row);
+                newValue = JSON.stringify(step.values);
+                break;
+            case "event_created":
+                target = `event:${step.eventId}`;
+                newValue = describeEvent(params.newEvent);
+                break;
+            case "event_patched":
+                target = `event:${step.eventId}`;
+                oldValue = describeEvent(step.previous);
+                newValue = describeEvent(params.newEvent);
+                break;
+            case "event_deleted":
+                target = `event:${step.eventId}`;
+                oldValue = describeEvent(step.snapshot);
+                break;
         }
-        // =======================================================================
+        if (params.undo) [oldValue, newValue] = [newValue, oldValue];
+        return {
+            session_id: params.ctx.sessionId || "",
+            channel_user: params.ctx.channelUser,
+            action: params.action,
+            target,
+            old_value: oldValue,
+            new_value: newValue,
+            user_message: params.ctx.userMessage,
+        };
+    });
+}
 
-        console.log("\n--- HISTÓRICO ENVIADO À IA ---\n");
-        console.log(conversation);
-        console.log("--------------------------------\n");
+//
+// ================ LGPD (direitos do titular) ================
+//
+/** Identificadores com que os eventos do usuário podem ter sido marcados (e-mail e/ou telefone). */
+function botOwnersOf(identity: VerifiedIdentity) {
+    return [botOwnerKey({ email: identity.email }), botOwnerKey({ phone: identity.phone })].filter(Boolean);
+}
 
-        // 2) IA -> instrução
-        let instruction: Instruction | null = null;
-        try {
-            instruction = (await getEditInstruction(conversation, sessionVars.user_phone)) as Instruction;
-        } catch (e: any) {
-            console.error("✗ Falha ao chamar getEditInstruction:", e?.message);
+/**
+ * Identidade para exportar/apagar dados: só a que o canal informa (`context.$user`), nunca e-mail ou
+ * telefone digitados no chat (o getUserData grava esses na sessão sem verificar de quem são).
+ */
+function requireVerifiedIdentity(ctx: ActionContext): VerifiedIdentity {
+    const { email, phone } = ctx.verifiedIdentity;
+    if (!email && !phone) {
+        throw new UserFacingError(
+            "Por segurança, só consigo exportar ou apagar seus dados quando o canal confirma seu e-mail ou telefone. Fale com o suporte para fazer esse pedido."
+        );
+    }
+    return ctx.verifiedIdentity;
+}
+
+/** Resumo legível de um evento para a exportação. */
+function exportEvent(ev: any) {
+    return {
+        id: ev.id,
+        summary: ev.summary || "",
+        start: ev.start?.dateTime || ev.start?.date || "",
+        end: ev.end?.dateTime || ev.end?.date || "",
+        location: ev.location || undefined,
+        attendees: (ev.attendees || []).map((a: any) => a.email).filter(Boolean),
+        recurrence: ev.recurrence || undefined,
+    };
+}
+
+/** Entrada de auditoria avulsa (ações que não passam pelo diário de desfazer). */
+function auditEntry(ctx: ActionContext, action: string, target: string, oldValue: string, newValue: string) {
+    return {
+        session_id: ctx.sessionId || "",
+        channel_user: ctx.channelUser,
+        action,
+        target,
+        old_value: oldValue,
+        new_value: newValue,
+        user_message: ctx.userMessage,
+    };
+}
+
+//
+// ================ Execução das ações ================
+//
+type SessionVars = {
+    user_name: string;
+    user_email: string;
+    user_phone: string;
+    calendar_email: string;
+    user_timezone: string; // fuso do usuário (IANA) ou DEFAULT_TZ
+};
+
+/** E-mail/telefone informados pelo canal (`context.$user`), e não digitados pelo usuário. */
+type VerifiedIdentity = { email: string; phone: string };
+
+type ActionContext = {
+    sessionId?: string;
+    sessionVars: SessionVars;
+    channelUser: string; // quem pediu (para a auditoria)
+    verifiedIdentity: VerifiedIdentity; // base das ações LGPD
+    userMessage: string; // mensagem que originou as ações (para a auditoria)
+    confirmed: boolean; // true quando o usuário já confirmou esta ação (duas etapas)
+    confirmations: PendingStep[]; // pedidos de confirmação deste turno (e ações que dependem deles), em ordem
+};
+
+/**
+ * Um passo guardado com a confirmação pendente. `deferred`: não foi perguntado ao usuário — dependia
+ * (depends_on_previous) de uma ação aguardando confirmação e roda depois dela, com as próprias regras.
+ */
+type PendingStep = { summary: string; instruction: Instruction; deferred?: boolean };
+
+type ActionResult = {
+    action: string;
+    // waiting: aguardando o usuário (confirmação, escolha de evento ou conflito); clarify: faltam dados, perguntamos;
+    // skipped: dependia de uma ação que falhou
+    status: "done" | "waiting" | "clarify" | "failed" | "skipped";
+    outputText: string;
+    sessionPatch: SessionPatch;
+};
+
+const FIELD_KEY_BY_ACTION: Partial<Record<Instruction["action"], string>> = {
+    update_phone: "telefone",
+    update_email: "email",
+    update_name: "nome",
+};
+
+/**
+ * Resolve o campo de uma edição de planilha no registro ('@/lib/fieldRegistry') e valida/normaliza o novo valor.
+ * @returns a instrução com o valor normalizado + o campo, ou a mensagem para o usuário
+ *          (campo não editável → failed; valor inválido → waiting, aguardando a correção).
+ */
+function prepareSheetEdit(
+    instruction: Instruction
+): { instruction: Instruction; field?: FieldDefinition } | { message: string; status: ActionResult["status"] } {
+    if (!("new_value" in instruction)) return { instruction };
+    const name = instruction.action === "update_sheet_field" ? instruction.field : FIELD_KEY_BY_ACTION[instruction.action]!;
+    const field = getFieldDefinition(name);
+    if (!field?.editable) {
+        const editable = FIELD_REGISTRY.filter((f) => f.editable).map((f) => f.header).join(", ");
+        return { status: "failed", message: `O campo "${name}" não pode ser alterado por aqui. Posso alterar: ${editable}.` };
+    }
+    const check = checkFieldValue(field, instruction.new_value);
+    if (!check.ok) return { status: "waiting", message: check.message };
+    return { instruction: { ...instruction, new_value: check.value }, field };
+}
+
+/**
+ * Valida os dados do autocadastro contra o registro de campos ('@/lib/fieldRegistry').
+ * O telefone da sessão (canal) completa o cadastro quando o usuário não o digitou.
+ * @returns os valores normalizados, ou a mensagem pedindo o que falta/corrigir.
+ */
+function prepareRegistration(
+    user: Record<string, string>,
+    sessionVars: SessionVars
+): { values: Array<{ field: FieldDefinition; value: string }> } | { message: string } {
+    const provided = new Map<FieldDefinition, string>();
+    for (const [key, value] of Object.entries(user)) {
+        const field = getFieldDefinition(key);
+        // Chaves fora do registro e campos do sistema (ex.: ID, gerado abaixo) são ignorados
+        if (field && !field.system) provided.set(field, value);
+    }
+    const phoneField = FIELD_REGISTRY.find((f) => f.type === "phone");
+    if (phoneField && !provided.has(phoneField) && sessionVars.user_phone) {
+        provided.set(phoneField, sessionVars.user_phone);
+    }
+
+    const missing = FIELD_REGISTRY.filter((f) => f.required && !provided.has(f));
+    if (missing.length) {
+        return { message: `Para concluir seu cadastro, preciso de: ${missing.map((f) => f.header).join(", ")}.` };
+    }
+
+    const values: Array<{ field: FieldDefinition; value: string }> = [];
+    for (const [field, raw] of provided) {
+        const check = checkFieldValue(field, raw);
+        if (!check.ok) return { message: check.message };
+        values.push({ field, value: check.value });
+    }
+    return { values };
+}
+
+/** Pedido incompleto guardado na sessão (`pending_clarify`) até o usuário responder a pergunta. */
+type PendingClarify = Pick<ClarifyInstruction, "intent" | "missing" | "partial">;
+
+// Como perguntar por cada campo que faltou (caminho do campo na instrução → trecho da pergunta)
+const MISSING_FIELD_LABELS: Record<string, string> = {
+    "event.start": "o dia e o horário",
+    "event.end": "o horário de término",
+    "event.summary": "o nome do evento",
+    new_value: "o novo valor",
+    field: "qual dado você quer alterar",
+    user: "seus dados para o cadastro",
+};
+
+const INTENT_LABELS: Record<string, string> = {
+    create_event: "marcar o evento",
+    update_event: "alterar o evento",
+    delete_event: "cancelar o evento",
+    update_phone: "atualizar seu telefone",
+    update_email: "atualizar seu e-mail",
+    update_name: "atualizar seu nome",
+    update_sheet_field: "atualizar seus dados",
+    register_user: "concluir seu cadastro",
+};
+
+/** UMA pergunta de complemento: a sugerida pela IA ou uma montada a partir dos campos que faltam. */
+function clarifyQuestion(instruction: ClarifyInstruction): string {
+    if (instruction.question?.trim()) return instruction.question.trim();
+    const parts = [...new Set(instruction.missing.map((m) => MISSING_FIELD_LABELS[m] || m))];
+    const what = parts.length > 1 ? `${parts.slice(0, -1).join(", ")} e ${parts[parts.length - 1]}` : parts[0];
+    const intent = INTENT_LABELS[instruction.intent];
+    return intent ? `Para ${intent}, só preciso saber ${what}. Pode me dizer?` : `Só preciso saber ${what}. Pode me dizer?`;
+}
+
+/** Junta o parcial guardado com a instrução nova (objetos como `event` são mesclados campo a campo). */
+function mergePartial(partial: Record<string, unknown>, update: Record<string, unknown>): Record<string, unknown> {
+    const merged: Record<string, unknown> = { ...partial };
+    for (const [key, value] of Object.entries(update)) {
+        if (value === undefined) continue;
+        const previous = merged[key];
+        const bothObjects = [previous, value].every((v) => v && typeof v === "object" && !Array.isArray(v));
+        merged[key] = bothObjects ? { ...(previous as object), ...(value as object) } : value;
+    }
+    return merged;
+}
+
+/**
+ * Completa as instruções deste turno com o pedido que aguardava complemento: o que o usuário disse
+ * antes (ex.: título do evento) não se perde se a IA devolver só o que faltava (ex.: o horário).
+ * Um novo `clarify` da mesma intenção é revalidado com o parcial mesclado: se já estiver completo,
+ * vira a instrução; senão, `missing` passa a listar só o que de fato ainda falta.
+ */
+function completeWithPending(instructions: Instruction[], pending: PendingClarify | null, timeZone: string): Instruction[] {
+    if (!pending?.partial) return instructions;
+    return instructions.map((instr) => {
+        if (instr.action === "clarify" && instr.intent === pending.intent) {
+            const merged = mergePartial(pending.partial!, instr.partial || {});
+            const candidate = { ...merged, action: instr.intent };
+            const parsed = instructionSchema.safeParse(candidate);
+            if (parsed.success && parsed.data.action !== "clarify") return resolveEventTimes(parsed.data, timeZone);
+            const recomputed = clarifyMissingFields(candidate)?.[0];
+            if (recomputed?.action !== "clarify") return { ...instr, partial: merged };
+            const sameMissing = recomputed.missing.join() === instr.missing.join();
+            // A pergunta da IA pode ser sobre um campo que já temos: nesse caso, montamos outra
+            return { ...instr, partial: merged, missing: recomputed.missing, question: sameMissing ? instr.question : undefined };
         }
+        if (instr.action !== pending.intent) return instr;
+        const parsed = instructionSchema.safeParse(mergePartial(pending.partial!, instr));
+        return parsed.success ? resolveEventTimes(parsed.data, timeZone) : instr;
+    });
+}
 
-        const lastUserMsg =
-            messages?.slice().reverse().find((m) => m.event === "message:received")?.message?.text || "";
-        console.log("\n--- LOG DE EDIÇÃO ---");
-        console.log("Última mensagem do usuário:", lastUserMsg);
-        console.log("Intenção:", instruction?.action || "error");
-        console.log("Payload:", JSON.stringify(instruction, null, 2));
+/** Executa UMA instrução em Sheets/Calendar e devolve a mensagem pronta e o patch de sessão. */
+async function executeInstruction(rawInstruction: Instruction, ctx: ActionContext): Promise<ActionResult> {
+    const { sessionVars } = ctx;
+    // Campo não editável ou valor inválido (e-mail sem @, telefone sem DDD...) não é gravado
+    const checked = prepareSheetEdit(rawInstruction);
+    if ("message" in checked) {
+        console.warn(`⚠️  Edição de planilha recusada (${rawInstruction.action}):`, checked.message);
+        return {
+            action: rawInstruction.action,
+            status: checked.status,
+            outputText: checked.message,
+            sessionPatch: {},
+        };
+    }
+    const { instruction, field: sheetField } = checked;
+    let outputText = "";
+    let status: ActionResult["status"] = "done";
+    const sessionPatch: SessionPatch = {};
+    const journal: UndoStep[] = []; // como desfazer esta ação (ver '@/lib/undoJournal')
 
-        // 3) Executar a ação
-        let outputText = "";
-        let liveInstructions = "";
-        const sessionPatch: Record<string, any> = {};
+    // Pede confirmação antes de ações configuradas em CONFIRM_ACTIONS (ver '@/lib/pendingActions').
+    // Retorna true quando a execução deve parar aqui, aguardando o "sim" do usuário.
+    const askConfirmation = async (buildSummary: () => string | Promise<string>, pendingInstr: Instruction) => {
+        if (ctx.confirmed || !requiresConfirmation(instruction.action)) return false;
+        if (!ctx.sessionId) {
+            console.warn("⚠️  Sem session_id: executando sem confirmação.");
+            return false;
+        }
+        const summary = await buildSummary();
+        ctx.confirmations.push({ summary, instruction: pendingInstr });
+        outputText = summary;
+        status = "waiting";
+        return true;
+    };
 
-        const action = String(instruction?.action || "");
-        try {
-            switch (action) {
-                // ======= SHEETS =======
-                case "update_phone": {
-                    const newVal = String(instruction?.new_value || "");
-                    if (!newVal) throw new Error("new_value ausente.");
-                    const res = await applySheetUpdate({
-                        field: "telefone",
-                        newValue: newVal,
-                        identifier: instruction?.identifier,
-                        fallbackIdentity: {
-                            email: sessionVars.user_email,
-                            phone: sessionVars.user_phone,
-                            name: sessionVars.user_name,
-                        },
-                    });
-                    outputText = `Pronto, ${sessionVars.user_name || "ok"}! Atualizei seu telefone para ${newVal}.`;
-                    liveInstructions =
-                        `### Dados do Usuário (atualizados)\n` +
-                        `- Nome: ${sessionVars.user_name || "-"}\n` +
-                        `- Email: ${sessionVars.user_email || "-"}\n` +
-                        `- Telefone: ${newVal}`;
-                    sessionPatch.user_phone = newVal;
-                    console.log(`✓ Sheets: linha ${res.row}, col ${res.col} (${res.old} -> ${res.updated}).`);
+    try {
+        switch (instruction.action) {
+            // ======= SHEETS =======
+            case "update_phone": {
+                const newVal = instruction.new_value;
+                if (await askConfirmation(() => `Confirma alterar seu telefone para ${newVal}?`, instruction)) break;
+                const res = await applySheetUpdate({
+                    field: sheetField!,
+                    newValue: newVal,
+                    identity: { email: sessionVars.user_email, phone: sessionVars.user_phone },
+                    identifier: instruction.identifier,
+                });
+                outputText = `Pronto, ${sessionVars.user_name || "ok"}! Atualizei seu telefone para ${newVal}.`;
+                sessionPatch.user_phone = newVal;
+                journal.push({
+                    kind: "sheet_update",
+                    row: res.row,
+                    col: res.col,
+                    rowId: res.rowId,
+                    field: res.field,
+                    previous: res.old,
+                    updated: res.updated,
+                    sessionKey: "user_phone",
+                });
+                console.log(`✓ Sheets: linha ${res.row}, col ${res.col} (${res.old} -> ${res.updated}).`);
+                break;
+            }
+            case "update_email": {
+                const newVal = instruction.new_value;
+                if (await askConfirmation(() => `Confirma alterar seu e-mail para ${newVal}?`, instruction)) break;
+                const res = await applySheetUpdate({
+                    field: sheetField!,
+                    newValue: newVal,
+                    identity: { email: sessionVars.user_email, phone: sessionVars.user_phone },
+                    identifier: instruction.identifier,
+                });
+                outputText = `Tudo certo! Atualizei seu e-mail para ${newVal}.`;
+                sessionPatch.user_email = newVal;
+                journal.push({
+                    kind: "sheet_update",
+                    row: res.row,
+                    col: res.col,
+                    rowId: res.rowId,
+                    field: res.field,
+                    previous: res.old,
+                    updated: res.updated,
+                    sessionKey: "user_email",
+                });
+                console.log(`✓ Sheets: linha ${res.row}, col ${res.col} (${res.old} -> ${res.updated}).`);
+                break;
+            }
+            case "update_name": {
+                const newVal = instruction.new_value;
+                if (await askConfirmation(() => `Confirma alterar seu nome para ${newVal}?`, instruction)) break;
+                const res = await applySheetUpdate({
+                    field: sheetField!,
+                    newValue: newVal,
+                    identity: { email: sessionVars.user_email, phone: sessionVars.user_phone },
+                    identifier: instruction.identifier,
+                });
+                outputText = `Nome atualizado para ${newVal}.`;
+                sessionPatch.user_name = newVal;
+                journal.push({
+                    kind: "sheet_update",
+                    row: res.row,
+                    col: res.col,
+                    rowId: res.rowId,
+                    field: res.field,
+                    previous: res.old,
+                    updated: res.updated,
+                    sessionKey: "user_name",
+                });
+                console.log(`✓ Sheets: linha ${res.row}, col ${res.col} (${res.old} -> ${res.updated}).`);
+                break;
+            }
+            case "update_sheet_field": {
+                const field = sheetField!;
+                const newVal = instruction.new_value;
+                if (await askConfirmation(() => `Confirma alterar "${field.header}" para "${newVal}"?`, instruction)) break;
+                const res = await applySheetUpdate({
+                    field,
+                    newValue: newVal,
+                    identity: { email: sessionVars.user_email, phone: sessionVars.user_phone },
+                    identifier: instruction.identifier,
+                });
+                outputText = `Campo "${field.header}" atualizado para "${newVal}".`;
+                console.log(`✓ Sheets: linha ${res.row}, col ${res.col} (${res.old} -> ${res.updated}).`);
+                if (field.sessionKey) sessionPatch[field.sessionKey] = newVal;
+                journal.push({
+                    kind: "sheet_update",
+                    row: res.row,
+                    col: res.col,
+                    rowId: res.rowId,
+                    field: res.field,
+                    previous: res.old,
+                    updated: res.updated,
+                    sessionKey: field.sessionKey,
+                });
+                break;
+            }
+
+            case "register_user": {
+                const prepared = prepareRegistration(instruction.user, sessionVars);
+                if ("message" in prepared) {
+                    outputText = prepared.message;
+                    status = "waiting";
                     break;
                 }
-                case "update_email": {
-                    const newVal = String(instruction?.new_value || "");
-                    if (!newVal) throw new Error("new_value ausente.");
-                    const res = await applySheetUpdate({
-                        field: "email",
-                        newValue: newVal,
-                        identifier: instruction?.identifier,
-                        fallbackIdentity: {
-                            email: sessionVars.user_email,
-                            phone: sessionVars.user_phone,
-                            name: sessionVars.user_name,
-                        },
-                    });
-                    outputText = `Tudo certo! Atualizei seu e-mail para ${newVal}.`;
-                    liveInstructions =
-                        `### Dados do Usuário (atualizados)\n` +
-                        `- Nome: ${sessionVars.user_name || "-"}\n` +
-                        `- Email: ${newVal}\n` +
-                        `- Telefone: ${sessionVars.user_phone || "-"}`;
-                    sessionPatch.user_email = newVal;
-                    console.log(`✓ Sheets: linha ${res.row}, col ${res.col} (${res.old} -> ${res.updated}).`);
+                const rows = await readSheetAll({ fresh: true });
+                if (!rows.length) throw new Error("Planilha vazia ou intervalo inválido.");
+
+                // Duplicidade: telefone ou e-mail já cadastrados
+                const duplicated = prepared.values
+                    .filter(({ field }) => field.type === "phone" || field.type === "email")
+                    .filter(({ field, value }) => findRowIndexByIdentifier(rows, { key: field.key, value }) >= 0)
+                    .map(({ field }) => field.header);
+                if (duplicated.length) {
+                    outputText = `Já existe um cadastro com este ${duplicated.join(" e ")}. Se for você, posso mostrar ou atualizar seus dados.`;
+                    status = "failed";
                     break;
                 }
-                case "update_name": {
-                    const newVal = String(instruction?.new_value || "");
-                    if (!newVal) throw new Error("new_value ausente.");
-                    const res = await applySheetUpdate({
-                        field: "nome",
-                        newValue: newVal,
-                        identifier: instruction?.identifier,
-                        fallbackIdentity: {
-                            email: sessionVars.user_email,
-                            phone: sessionVars.user_phone,
-                            name: sessionVars.user_name,
-                        },
-                    });
-                    outputText = `Nome atualizado para ${newVal}.`;
-                    liveInstructions =
-                        `### Dados do Usuário (atualizados)\n` +
-                        `- Nome: ${newVal}\n` +
-                        `- Email: ${sessionVars.user_email || "-"}\n` +
-                        `- Telefone: ${sessionVars.user_phone || "-"}`;
-                    sessionPatch.user_name = newVal;
-                    console.log(`✓ Sheets: linha ${res.row}, col ${res.col} (${res.old} -> ${res.updated}).`);
-                    break;
+
+                const headerRow = rows[0];
+                const newRow = headerRow.map(() => "");
+                for (const { field, value } of prepared.values) {
+                    const col = findFieldColumn(headerRow, field);
+                    if (col >= 0) newRow[col] = value;
+                    else if (field.required) throw new Error(`Coluna "${field.header}" não encontrada na planilha.`);
                 }
-                case "update_sheet_field": {
-                    const field = String(instruction?.field || "");
-                    const newVal = String(instruction?.new_value || "");
-                    if (!field || !newVal) throw new Error("field/new_value ausentes.");
-                    const res = await applySheetUpdate({
-                        field,
-                        newValue: newVal,
-                        identifier: instruction?.identifier,
-                        fallbackIdentity: {
-                            email: sessionVars.user_email,
-                            phone: sessionVars.user_phone,
-                            name: sessionVars.user_name,
-                        },
-                    });
-                    outputText = `Campo "${field}" atualizado para "${newVal}".`;
-                    liveInstructions = `### Atualização de planilha\n- ${field}: ${newVal} (linha ${res.row})`;
-                    console.log(`✓ Sheets: linha ${res.row}, col ${res.col} (${res.old} -> ${res.updated}).`);
-                    const normalized = normalizeHeader(field);
-                    if (["telefone", "phone", "user_phone"].includes(normalized)) sessionPatch.user_phone = newVal;
-                    if (["email", "user_email"].includes(normalized)) sessionPatch.user_email = newVal;
-                    if (["nome", "name", "user_name"].includes(normalized)) sessionPatch.user_name = newVal;
-                    break;
+                // ID estável da linha, se a planilha tiver a coluna (ver verificação em applySheetUpdate)
+                const idField = getFieldDefinition("id");
+                const idCol = idField ? findFieldColumn(headerRow, idField) : -1;
+                if (idCol >= 0) newRow[idCol] = randomUUID(); // sempre do servidor, nunca do usuário
+                const rowNumber = await appendSheetRow(newRow);
+                const rowId = idCol >= 0 ? newRow[idCol] : undefined;
+
+                for (const { field, value } of prepared.values) {
+                    if (field.sessionKey) sessionPatch[field.sessionKey] = value;
                 }
+                sessionPatch.user_registered = true;
+                outputText = `Cadastro concluído${sessionPatch.user_name ? `, ${sessionPatch.user_name}` : ""}! Já posso consultar e editar seus dados.`;
+                journal.push({ kind: "sheet_row_appended", row: rowNumber, values: newRow, rowId });
+                console.log(`✓ Sheets: cadastro criado na linha ${rowNumber}.`);
+                break;
+            }
 
-                // ======= CALENDAR =======
-                case "create_event": {
-                    const ev = instruction?.event || {};
-                    if (!ev.start || !ev.end || !ev.summary) {
-                        throw new Error("Para create_event: summary, start e end são obrigatórios.");
+            // ======= CALENDAR =======
+            case "create_event": {
+                const ev = instruction.event;
+                const calendarId = ev.calendarId || sessionVars.calendar_email || sessionVars.user_email || undefined;
+                const timezone = ev.timezone || sessionVars.user_timezone;
+                // getEditInstruction já preenche o fim; a confirmação pendente pode trazer instruções antigas
+                const endIso = ev.end || defaultEventEnd(ev.start, timezone);
+
+                if (!instruction.force) {
+                    const start = parseZonedDateTime(ev.start, timezone);
+                    const end = parseZonedDateTime(endIso, timezone);
+                    const conflicts = await findConflicts({ calendarId, start, end });
+                    if (conflicts.length) {
+                        const reply = await buildConflictReply({ conflict: conflicts[0], calendarId, start, end, timezone });
+                        outputText = reply.outputText;
+                        console.log(`⚠️  Conflito de agenda com "${conflicts[0].summary}" (${conflicts[0].id}). Nada gravado.`);
+                        status = "waiting";
+                        break;
                     }
-                    const created = await createCalendarEvent({
-                        summary: ev.summary!,
-                        description: ev.description,
-                        location: ev.location,
-                        attendees: ev.attendees,
-                        start: ev.start!,
-                        end: ev.end!,
-                        timezone: ev.timezone || DEFAULT_TZ,
-                        // se seu google.ts aceitar calendarId por e-mail (obtido da planilha), passe aqui:
-                        calendarId: ev.calendarId || sessionVars.calendar_email || sessionVars.user_email || undefined,
-                    });
-                    outputText = `Evento criado: ${created.summary} (${created.id}).`;
-                    liveInstructions = `### Agenda\n- Evento criado com sucesso.\n- ID: ${created.id}`;
-                    (sessionPatch as any).last_event_id = created.id;
-                    break;
                 }
-                case "update_event": {
-                    const ev = instruction?.event || {};
-                    let calendarId = ev.calendarId || sessionVars.calendar_email || sessionVars.user_email || undefined;
-                    let eventId = ev.eventId;
-
-                    if (!eventId && ev.summary) {
-                        const date = ev.date || (ev.start ? ev.start.slice(0, 10) : undefined);
-                        const dayStart = date ? new Date(date + "T00:00:00Z").toISOString() : undefined;
-                        const dayEnd = date ? new Date(date + "T23:59:59Z").toISOString() : undefined;
-                        const matches = await listCalendarEvents({
-                            calendarId,
-                            q: ev.summary,
-                            timeMin: dayStart,
-                            timeMax: dayEnd,
-                            maxResults: 5,
-                        });
-                        eventId = matches?.[0]?.id;
+
+                const created = await createCalendarEvent({
+                    summary: ev.summary,
+                    description: ev.description,
+                    location: ev.location,
+                    attendees: ev.attendees,
+                    start: ev.start,
+                    end: endIso,
+                    timezone,
+                    // se seu google.ts aceitar calendarId por e-mail (obtido da planilha), passe aqui:
+                    calendarId,
+                    recurrence: ev.recurrence ? buildRecurrence(ev.recurrence) : undefined,
+                    owner: botOwnerKey({ email: sessionVars.user_email, phone: sessionVars.user_phone }),
+                });
+                const repeats = ev.recurrence ? ` Repete ${describeRecurrence(ev.recurrence)}.` : "";
+                outputText = `Evento criado: ${created.summary} (${created.id}).${repeats}`;
+                sessionPatch.last_event_id = created.id;
+                journal.push({ kind: "event_created", eventId: created.id!, calendarId });
+                break;
+            }
+            case "update_event": {
+                const ev = instruction.event;
+                let calendarId = ev.calendarId || sessionVars.calendar_email || sessionVars.user_email || undefined;
+                let eventId = ev.eventId;
+                const timezone = ev.timezone || sessionVars.user_timezone;
+
+                if (!eventId && ev.summary) {
+                    const date = ev.date || (ev.start ? ev.start.slice(0, 10) : undefined);
+                    const found = await searchEventsBySummary(ev.summary, timezone, calendarId, date);
+                    const matches = ev.scope === "all" ? collapseSeries(found) : found;
+                    if (matches.length > 1) {
+                        const reply = buildDisambiguationReply(toCandidates(matches, calendarId), instruction, "alterar", timezone);
+                        outputText = reply.outputText;
+                        Object.assign(sessionPatch, reply.sessionPatch);
+                        status = "waiting";
+                        break;
+                    }
+                    eventId = matches?.[0]?.id || undefined;
+                }
+                if (!eventId) throw new UserFacingError("Não foi possível identificar o evento para atualizar.");
+
+                const patch: any = {};
+                if (ev.summary) patch.summary = ev.summary;
+                if (ev.description) patch.description = ev.description;
+                if (ev.location) patch.location = ev.location;
+                if (ev.start) patch.start = { dateTime: ev.start, timeZone: timezone };
+                if (ev.end) patch.end = { dateTime: ev.end, timeZone: timezone };
+
+                // Mudança de horário: mantém a duração original se só veio o início e, salvo `force`,
+                // verifica conflito antes de gravar
+                if (ev.start || ev.end) {
+                    const current = (await calendar.events.get({ calendarId: calendarId || "primary", eventId })).data;
+                    const curStart = current.start?.dateTime ? new Date(current.start.dateTime) : undefined;
+                    const curEnd = current.end?.dateTime ? new Date(current.end.dateTime) : undefined;
+                    const durationMs = curStart && curEnd ? curEnd.getTime() - curStart.getTime() : 60 * 60000;
+                    const start = ev.start ? parseZonedDateTime(ev.start, timezone) : curStart;
+                    const end = ev.end
+                        ? parseZonedDateTime(ev.end, timezone)
+                        : start ? new Date(start.getTime() + durationMs) : undefined;
+
+                    if (start && end) {
+                        if (!ev.end) patch.end = { dateTime: end.toISOString(), timeZone: timezone };
+                        const conflicts = instruction.force
+                            ? []
+                            : await findConflicts({ calendarId, start, end, ignoreEventId: eventId });
+                        if (conflicts.length) {
+                            const reply = await buildConflictReply({ conflict: conflicts[0], calendarId, start, end, timezone });
+                            outputText = reply.outputText;
+                            console.log(`⚠️  Conflito de agenda com "${conflicts[0].summary}" (${conflicts[0].id}). Nada gravado.`);
+                            status = "waiting";
+                            break;
+                        }
                     }
-                    if (!eventId) throw new Error("Não foi possível identificar o evento para atualizar.");
-
-                    const patch: any = {};
-                    if (ev.summary) patch.summary = ev.summary;
-                    if (ev.description) patch.description = ev.description;
-                    if (ev.location) patch.location = ev.location;
-                    if (ev.start) patch.start = { dateTime: ev.start, timeZone: ev.timezone || DEFAULT_TZ };
-                    if (ev.end) patch.end = { dateTime: ev.end, timeZone: ev.timezone || DEFAULT_TZ };
-
-                    const updated = await patchCalendarEvent(eventId, patch, calendarId);
-                    outputText = `Evento atualizado: ${updated.summary} (${updated.id}).`;
-                    liveInstructions = `### Agenda\n- Evento atualizado com sucesso.\n- ID: ${updated.id}`;
-                    (sessionPatch as any).last_event_id = updated.id;
-                    break;
                 }
-                case "delete_event": {
-                    const ev = instruction?.event || {};
-                    let calendarId = ev.calendarId || sessionVars.calendar_email || sessionVars.user_email || undefined;
-                    let eventId = ev.eventId;
-
-                    if (!eventId && ev.summary) {
-                        const date = ev.date || undefined;
-                        const dayStart = date ? new Date(date + "T00:00:00Z").toISOString() : undefined;
-                        const dayEnd = date ? new Date(date + "T23:59:59Z").toISOString() : undefined;
-                        const matches = await listCalendarEvents({
-                            calendarId,
-                            q: ev.summary,
-                            timeMin: dayStart,
-                            timeMax: dayEnd,
-                            maxResults: 5,
-                        });
-                        eventId = matches?.[0]?.id;
+
+                // Séries recorrentes: "this" altera só a ocorrência; "all" a série; "following" divide a série
+                const scope: RecurrenceScope = ev.scope || "this";
+                if (ev.recurrence) patch.recurrence = buildRecurrence(ev.recurrence);
+                let updated;
+                const series = await getSeriesInfo(eventId, calendarId);
+                const targetsSeries = !!series.master && (scope !== "this" || !!patch.recurrence);
+                if (targetsSeries && scope === "following" && series.instanceStart) {
+                    const split = await splitSeries(series, patch, timezone, calendarId);
+                    updated = split.event;
+                    journal.push(...split.steps);
+                } else if (targetsSeries) {
+                    updated = await patchCalendarEvent(series.master.id, shiftPatchToMaster(patch, series, timezone), calendarId);
+                    journal.push({ kind: "event_patched", eventId: series.master.id, calendarId, previous: snapshotEvent(series.master) });
+                } else {
+                    updated = await patchCalendarEvent(eventId, patch, calendarId);
+                    journal.push({ kind: "event_patched", eventId, calendarId, previous: snapshotEvent(series.event) });
+                }
+                const scopeText = targetsSeries ? ` (${SCOPE_LABELS[patch.recurrence && scope === "this" ? "all" : scope]})` : "";
+                outputText = `Evento atualizado${scopeText}: ${updated.summary} (${updated.id}).`;
+                sessionPatch.last_event_id = updated.id;
+                break;
+            }
+            case "delete_event": {
+                const ev = instruction.event;
+                let calendarId = ev.calendarId || sessionVars.calendar_email || sessionVars.user_email || undefined;
+                let eventId = ev.eventId;
+                const timezone = ev.timezone || sessionVars.user_timezone;
+
+                if (!eventId && ev.summary) {
+                    const found = await searchEventsBySummary(ev.summary, timezone, calendarId, ev.date || undefined);
+                    const matches = ev.scope === "all" ? collapseSeries(found) : found;
+                    if (matches.length > 1) {
+                        const reply = buildDisambiguationReply(toCandidates(matches, calendarId), instruction, "excluir", timezone);
+                        outputText = reply.outputText;
+                        Object.assign(sessionPatch, reply.sessionPatch);
+                        status = "waiting";
+                        break;
                     }
-                    if (!eventId) throw new Error("Não foi possível identificar o evento para excluir.");
+                    eventId = matches?.[0]?.id || undefined;
+                }
+                if (!eventId) throw new UserFacingError("Não foi possível identificar o evento para excluir.");
+
+                const scope: RecurrenceScope = ev.scope || "this";
+                const series = await getSeriesInfo(eventId, calendarId);
+                const scopeText = series.master ? ` (${SCOPE_LABELS[scope]})` : "";
 
+                const confirmDelete = await askConfirmation(() => {
+                    const current = series.event;
+                    const start = current.start?.dateTime ? new Date(current.start.dateTime) : undefined;
+                    const when = start ? ` em ${formatShortDateTime(start, timezone).replace(",", "")}` : "";
+                    return `Confirma excluir '${current.summary || "Sem título"}'${when}${scopeText}?`;
+                }, { ...instruction, event: { ...ev, eventId, calendarId } });
+                if (confirmDelete) break;
+
+                const masterDeleted: UndoStep | null = series.master
+                    ? { kind: "event_deleted", eventId: series.master.id, calendarId, snapshot: snapshotEvent(series.master) }
+                    : null;
+                if (series.master && scope === "all") {
+                    await deleteCalendarEvent(series.master.id, calendarId);
+                    journal.push(masterDeleted!);
+                } else if (series.master && scope === "following" && series.instanceStart) {
+                    const prior = await countPriorInstances(series.master.id, series.instanceStart, calendarId);
+                    if (prior === 0) {
+                        await deleteCalendarEvent(series.master.id, calendarId);
+                        journal.push(masterDeleted!);
+                    } else {
+                        await patchCalendarEvent(
+                            series.master.id,
+                            { recurrence: truncateRecurrence(series.master.recurrence || [], series.instanceStart) },
+                            calendarId
+                        );
+                        journal.push({ kind: "event_patched", eventId: series.master.id, calendarId, previous: snapshotEvent(series.master) });
+                    }
+                } else {
                     await deleteCalendarEvent(eventId, calendarId);
-                    outputText = `Ok! Evento removido.`;
-                    liveInstructions = `### Agenda\n- Evento removido com sucesso.\n- ID: ${eventId}`;
-                    (sessionPatch as any).last_event_id = eventId;
+                    journal.push({ kind: "event_deleted", eventId, calendarId, snapshot: snapshotEvent(series.event) });
+                }
+                outputText = `Ok! Evento removido${scopeText}.`;
+                sessionPatch.last_event_id = eventId;
+                break;
+            }
+
+            // ======= LGPD =======
+            case "export_my_data": {
+                const identity = requireVerifiedIdentity(ctx);
+                const rows = await readSheetAll();
+                const rowIndex = rows.length ? findRowIndexByIdentifier(rows, undefined, identity) : -1;
+                const record = rowIndex > 0 ? readUserRecord(rows, rowIndex) : [];
+                const calendarId = sessionVars.calendar_email || sessionVars.user_email || undefined;
+                const events = (await listBotEvents({ calendarId, owners: botOwnersOf(identity) })).map(exportEvent);
+
+                const payload = {
+                    generated_at: new Date().toISOString(),
+                    cadastro: Object.fromEntries(record.map(({ field, value }) => [field.key, value])),
+                    eventos_criados_pelo_bot: events,
+                };
+                const dataLines = record.length
+                    ? record.map(({ field, value }) => `- ${field.header}: ${value || "-"}`).join("\n")
+                    : "- Nenhum cadastro encontrado.";
+                const eventLines = events.length
+                    ? events.map((ev) => `- ${ev.summary || "(sem título)"} — ${ev.start}`).join("\n")
+                    : "- Nenhum evento criado por mim.";
+                outputText =
+                    `Aqui estão os dados que tenho sobre você:\n\n**Cadastro**\n${dataLines}\n\n` +
+                    `**Eventos que criei na sua agenda**\n${eventLines}`;
+                sessionPatch.lgpd_export_json = JSON.stringify(payload);
+                await recordAudit([
+                    auditEntry(
+                        ctx,
+                        "export_my_data",
+                        rowIndex > 0 ? sheetAuditTarget(rowIdOf(rows[0], rows[rowIndex]), rowIndex + 1) : "",
+                        "",
+                        `exportados ${record.length} campo(s) e ${events.length} evento(s)`
+                    ),
+                ]);
+                break;
+            }
+            case "delete_my_data": {
+                const identity = requireVerifiedIdentity(ctx);
+                const rows = await readSheetAll();
+                const rowIndex = rows.length ? findRowIndexByIdentifier(rows, undefined, identity) : -1;
+                const calendarId = sessionVars.calendar_email || sessionVars.user_email || undefined;
+                const events = await listBotEvents({ calendarId, owners: botOwnersOf(identity) });
+                if (rowIndex < 0 && !events.length) {
+                    outputText = "Não encontrei dados seus para apagar (nem cadastro, nem eventos criados por mim).";
+                    status = "failed";
                     break;
                 }
+                const parts = [
+                    rowIndex > 0 ? "seus dados pessoais do cadastro" : "",
+                    events.length ? `${events.length} evento(s) que criei na sua agenda` : "",
+                ].filter(Boolean);
+                if (await askConfirmation(() => `Confirma apagar ${parts.join(" e ")}? Isso não pode ser desfeito.`, instruction)) break;
 
-                default:
-                    throw new Error("Ação não reconhecida pela IA.");
+                // Pseudonimização: os campos PII da linha ficam vazios; os demais (não pessoais) permanecem
+                if (rowIndex > 0 && !(await verifyRowIdentity(rows, rowIndex))) {
+                    throw new UserFacingError("A planilha mudou enquanto eu apagava seus dados e nada foi alterado. Tente novamente.");
+                }
+                const audit: Array<Omit<AuditEntry, "timestamp">> = [];
+                const cleared: string[] = [];
+                const erasedValues: string[] = [identity.email, identity.phone];
+                // Alvo da linha na auditoria pelo ID: o número dela muda quando outras são inseridas ou reordenadas
+                const rowId = rowIndex > 0 ? rowIdOf(rows[0], rows[rowIndex]) || undefined : undefined;
+                if (rowIndex > 0) {
+                    for (const { field, value } of readUserRecord(rows, rowIndex)) {
+                        if (!field.pii || !value) continue;
+                        erasedValues.push(value);
+                        const col = findFieldColumn(rows[0], field);
+                        await updateSheetCell(rowIndex, col, "");
+                        cleared.push(field.header);
+                        audit.push(auditEntry(ctx, "delete_my_data", sheetAuditTarget(rowId, rowIndex + 1, { col: col + 1, field: field.key }), "[dado pessoal removido]", ""));
+                    }
+                }
+                let removedEvents = 0;
+                for (const ev of events) {
+                    try {
+                        await deleteCalendarEvent(ev.id!, calendarId);
+                        removedEvents++;
+                        audit.push(auditEntry(ctx, "delete_my_data", `event:${ev.id}`, "[evento removido]", ""));
+                    } catch (err: any) {
+                        // Já removido pelo próprio usuário: nada a fazer
+                        if (err?.code !== 404 && err?.code !== 410) throw err;
+                    }
+                }
+                await recordAudit(audit);
+
+                // A trilha e o diário de desfazer não podem manter o que acabou de ser apagado:
+                // as entradas do titular são pseudonimizadas e as edições dele deixam de ser desfazíveis
+                const row = rowIndex > 0 ? rowIndex + 1 : -1;
+                const eventIds = new Set(events.map((ev) => ev.id));
+                try {
+                    const { changed } = await pseudonymizeAudit({
+                        channelUsers: [ctx.channelUser, identity.email, identity.phone],
+                        targets: [...(row > 0 ? [sheetAuditTarget(rowId, row)] : []), ...events.map((ev) => `event:${ev.id}`)],
+                        values: erasedValues,
+                    });
+                    console.log(`✓ LGPD: ${changed} entrada(s) da auditoria pseudonimizadas.`);
+                } catch (err: any) {
+                    console.error("✗ LGPD: falha ao pseudonimizar a auditoria (refazer manualmente):", err?.message);
+                }
+                discardEdits((entry, entrySession) =>
+                    entrySession === ctx.sessionId ||
+                    entry.steps.some((step) =>
+                        step.kind === "sheet_update" || step.kind === "sheet_row_appended" ? step.row === row : eventIds.has(step.eventId)
+                    )
+                );
+
+                for (const field of FIELD_REGISTRY) {
+                    if (field.pii && field.sessionKey) sessionPatch[field.sessionKey] = "";
+                }
+                sessionPatch.user_registered = false;
+                outputText =
+                    `Pronto. Apaguei ${cleared.length ? `seus dados pessoais (${cleared.join(", ")})` : "seus dados"}` +
+                    `${removedEvents ? ` e ${removedEvents} evento(s) que criei na sua agenda` : ""}.` +
+                    ` No histórico de alterações, fica só o registro de que elas aconteceram, sem seus dados.`;
+                console.log(`✓ LGPD: ${cleared.length} campo(s) apagados, ${removedEvents} evento(s) removidos.`);
+                break;
+            }
+
+            // ======= DESFAZER =======
+            case "undo_last": {
+                const entry = ctx.sessionId ? popLastEdit(ctx.sessionId) : null;
+                if (!entry) {
+                    outputText = "Não encontrei nenhuma alteração recente para desfazer.";
+                    status = "failed";
+                    break;
+                }
+                Object.assign(sessionPatch, await undoSteps(entry.steps));
+                await recordAudit(auditEntriesFromSteps(entry.steps, { action: "undo_last", ctx, undo: true }));
+                outputText = `Pronto, desfiz a última alteração: ${entry.description}`;
+                console.log(`↩️  Desfeito "${entry.action}" (${entry.steps.length} passo(s)).`);
+                break;
+            }
+
+            // ======= PEDIDO INCOMPLETO =======
+            case "clarify": {
+                outputText = clarifyQuestion(instruction);
+                // O próximo turno completa o pedido a partir daqui (ver completeWithPending)
+                const pending: PendingClarify = { intent: instruction.intent, missing: instruction.missing, partial: instruction.partial };
+                sessionPatch.pending_clarify = JSON.stringify(pending);
+                status = "clarify";
+                console.log(`❓ Pedido incompleto (${instruction.intent}); faltando: ${instruction.missing.join(", ")}.`);
+                break;
+            }
+            case "unknown": {
+                const editable = FIELD_REGISTRY.filter((f) => f.editable).map((f) => f.header.toLowerCase()).join(", ");
+                outputText =
+                    `Não entendi bem o que você quer alterar. Posso atualizar seus dados (${editable}) ` +
+                    "ou marcar, alterar e cancelar eventos na sua agenda. O que você gostaria de fazer?";
+                status = "clarify";
+                break;
             }
+
+            default:
+                throw new Error(`Ação não suportada: ${instruction.action}.`);
+        }
+    } catch (e: any) {
+        status = "failed";
+        // Detalhes técnicos (Google, planilha, IA) ficam só no log
+        outputText = e instanceof UserFacingError
+            ? e.message
+            : "Não consegui concluir a edição solicitada agora. Pode tentar de novo em instantes?";
+        console.error("✗ Execução de ação falhou:", e?.message);
+    }
+
+    if (status === "done" && journal.length) {
+        const newEvent = "event" in instruction ? instruction.event : undefined;
+        await recordAudit(auditEntriesFromSteps(journal, { action: instruction.action, ctx, newEvent }));
+        if (ctx.sessionId) {
+            recordEdit(ctx.sessionId, { action: instruction.action, description: outputText, steps: journal });
+        }
+    }
+    return { action: instruction.action, status, outputText, sessionPatch };
+}
+
+const STATUS_ICONS: Record<ActionResult["status"], string> = {
+    done: "✅",
+    waiting: "⏸",
+    clarify: "❓",
+    failed: "❌",
+    skipped: "⏭",
+};
+
+/** Uma ação: a própria mensagem. Várias: lista numerada com o resultado de cada uma. */
+function combineResults(results: ActionResult[]) {
+    if (results.length === 1) {
+        return { outputText: results[0].outputText };
+    }
+    return {
+        outputText: results.map((r, i) => `${i + 1}. ${STATUS_ICONS[r.status]} ${r.outputText}`).join("\n"),
+    };
+}
+
+/**
+ * Dados do usuário já conhecidos na sessão, para o contexto do prompt (por cabeçalho do registro).
+ * Só campos editáveis: CPF e outros dados não editáveis não vão para o modelo.
+ */
+function knownProfile(sessionVariables: Record<string, unknown>): Record<string, string> {
+    const profile: Record<string, string> = {};
+    for (const field of FIELD_REGISTRY) {
+        const value = field.sessionKey ? sessionVariables[field.sessionKey] : undefined;
+        if (field.editable && typeof value === "string" && value.trim()) profile[field.header] = value.trim();
+    }
+    return profile;
+}
+
+type TurnReply = {
+    outputText: string;
+    sessionPatch: SessionPatch;
+    failed?: boolean; // nenhuma ação concluída nem aguardando o usuário: não vai para o cache de idempotência
+};
+
+/** Um turno do editData: monta a conversa, obtém as instruções e executa as ações. */
+async function handleEditTurn(params: {
+    body: any;
+    sessionId?: string;
+    sessionVars: SessionVars;
+    messages: MoveoMessage[];
+    lastUserMessageRealTime: string;
+}): Promise<TurnReply> {
+    const { body, sessionId, sessionVars, messages, lastUserMessageRealTime } = params;
+
+    // 2) Construir a conversa a partir do histórico da API: turnos desde a última ação concluída
+    //    (dentro do orçamento de tokens) + resumo do que veio antes, com os pedidos já atendidos
+    const fulfilled = parseFulfilled(body?.context?.session_variables?.edit_fulfilled);
+    let conversationFromHistory = buildConversationWindow(messages, {
+        since: body?.context?.session_variables?.edit_last_done_at || undefined,
+        fulfilled,
+    });
+
+    // ======================== LÓGICA DE DUPLA VERIFICAÇÃO ========================
+    // Verificamos se a mensagem em tempo real já não está no final do histórico
+    if (lastUserMessageRealTime && !conversationFromHistory.endsWith(`U: ${lastUserMessageRealTime}`)) {
+        // Se não estiver, nós a adicionamos para garantir que a IA tenha o contexto mais recente
+        conversationFromHistory += `\nU: ${lastUserMessageRealTime}`;
+    }
+    const conversation = conversationFromHistory.trim();
+    // ===========================================================================
+
+    // Se a conversa retornar vazia, paramos a execução e avisamos o usuário.
+    if (!conversation || conversation.trim() === '') {
+        console.warn("⚠️  Conversa vazia. Pulando a chamada para a IA da OpenAI.");
+        const errorMessage = "Desculpe, não consegui recuperar o histórico da conversa para processar seu pedido. Por favor, tente novamente.";
+
+        // Retorna uma resposta controlada para a Moveo
+        return { outputText: errorMessage, sessionPatch: {} };
+    }
+    // =======================================================================
+
+    console.log("\n--- HISTÓRICO ENVIADO À IA ---\n");
+    console.log(conversation);
+    console.log("--------------------------------\n");
+
+    // 2) IA -> instruções
+    let instructions: Instruction[] = [];
+
+    // Confirmação em duas etapas: se há ação pendente nesta sessão, a mensagem atual é a resposta a ela.
+    let confirmedSteps: boolean[] = []; // por instrução: já confirmada pelo usuário?
+    let pendingActionConsumed = false;
+    // Pedido que este turno atende: numa confirmação, o que foi pedido antes do "sim"
+    let request = lastUserMessageRealTime || lastUserMessageOf(messages)?.message?.text || "";
+    if (sessionId) {
+        const pendingAction = getPendingAction<PendingStep[]>(
+            sessionId,
+            body?.context?.session_variables?.pending_action_token || undefined
+        );
+        if (pendingAction) {
+            const answer = classifyConfirmation(lastUserMessageRealTime);
+            clearPendingAction(sessionId);
+            pendingActionConsumed = true;
+            console.log(`Resposta à confirmação pendente (${pendingAction.token}):`, answer || "outro assunto");
+            if (answer === "confirm") {
+                instructions = pendingAction.instruction.map((step) => step.instruction);
+                confirmedSteps = pendingAction.instruction.map((step) => !step.deferred);
+                request = pendingAction.request || request;
+            } else if (answer === "cancel") {
+                return { outputText: "Tudo bem, cancelei. Nada foi alterado.", sessionPatch: { pending_action_token: "" } };
+            }
+        }
+    }
+
+    // Se o turno anterior pediu para escolher entre vários eventos, tenta resolver a escolha sem chamar a IA.
+    const pendingCandidates = parseSessionJson<EventCandidate[]>(body?.context?.session_variables?.pending_event_candidates);
+    const pendingParsed = instructionSchema.safeParse(
+        parseSessionJson<unknown>(body?.context?.session_variables?.pending_event_instruction)
+    );
+    const pendingInstruction = pendingParsed.success ? pendingParsed.data : null;
+    if (
+        !instructions.length &&
+        pendingCandidates?.length &&
+        (pendingInstruction?.action === "update_event" || pendingInstruction?.action === "delete_event")
+    ) {
+        const chosen = pickCandidate(lastUserMessageRealTime, pendingCandidates, sessionVars.user_timezone);
+        if (chosen) {
+            console.log(`✓ Evento escolhido pelo usuário: "${chosen.summary}" (${chosen.id}).`);
+            instructions = [{
+                ...pendingInstruction,
+                event: { ...pendingInstruction.event, eventId: chosen.id, calendarId: chosen.calendarId },
+            }];
+        }
+    }
+
+    // Pedido incompleto do turno anterior: a IA recebe o parcial e a resposta do usuário o completa
+    const pendingClarify = parseSessionJson<PendingClarify>(body?.context?.session_variables?.pending_clarify);
+
+    if (!instructions.length) {
+        try {
+            instructions = await getEditInstruction(conversation, sessionVars.user_phone, {
+                timeZone: sessionVars.user_timezone,
+                profile: knownProfile(body?.context?.session_variables || {}),
+                pending: pendingClarify?.intent ? pendingClarify : undefined,
+            });
+            instructions = completeWithPending(instructions, pendingClarify, sessionVars.user_timezone);
         } catch (e: any) {
-            outputText =
-                "Não consegui identificar ou executar a edição solicitada." +
-                (e?.message ? ` Detalhe: ${e.message}` : "");
-            liveInstructions = "### Observação\n- Pedido de edição não pôde ser processado.";
-            console.error("✗ Execução de ação falhou:", e?.message);
+            console.error("✗ Falha ao chamar getEditInstruction:", e?.message);
         }
+    }
+
+    const lastUserMsg = lastUserMessageOf(messages)?.message?.text || "";
+    console.log("\n--- LOG DE EDIÇÃO ---");
+    console.log("Última mensagem do usuário:", lastUserMsg);
+    console.log("Intenções:", instructions.map((i) => i.action).join(", ") || "error");
+    console.log("Payload:", JSON.stringify(instructions, null, 2));
 
-        console.log("Retorno para Moveo:", outputText);
-        console.log("--- FIM DO LOG DE EDIÇÃO ---\n");
+    // 3) Executar as ações, na ordem
+    const sessionPatch: SessionPatch = {};
+    if (pendingCandidates?.length) {
+        // A escolha pendente vale só para o turno seguinte
+        sessionPatch.pending_event_candidates = "";
+        sessionPatch.pending_event_instruction = "";
+    }
+    if (pendingActionConsumed) sessionPatch.pending_action_token = "";
+    // Um novo "clarify" neste turno grava o pedido de novo; senão, o complemento já foi usado
+    if (pendingClarify) sessionPatch.pending_clarify = "";
 
-        return NextResponse.json({
-            output: { live_instructions: outputText },
-        });
+    const ctx: ActionContext = {
+        sessionId,
+        sessionVars,
+        channelUser:
+            body?.context?.$user?.id ||
+            body?.context?.user?.id ||
+            body?.channel_user_id ||
+            sessionVars.user_phone ||
+            sessionVars.user_email ||
+            "",
+        verifiedIdentity: {
+            email: body?.context?.$user?.email || "",
+            phone: body?.context?.$user?.phone || "",
+        },
+        userMessage: lastUserMessageRealTime,
+        confirmed: false,
+        confirmations: [],
+    };
+    const results: ActionResult[] = [];
+    const toRun: Instruction[] = instructions.length ? instructions : [{ action: "error" }];
+    let previousAwaitsConfirmation = false;
+    for (const [index, instr] of toRun.entries()) {
+        const previous = results[results.length - 1];
+        if (instr.depends_on_previous && previous && previous.status !== "done") {
+            // A anterior espera o "sim": esta vai junto na pendência e roda depois da confirmação
+            if (previousAwaitsConfirmation) {
+                ctx.confirmations.push({ summary: "", instruction: instr, deferred: true });
+                results.push({
+                    action: instr.action,
+                    status: "waiting",
+                    outputText: `"${instr.action}" fica para depois que você confirmar a ação anterior.`,
+                    sessionPatch: {},
+                });
+                continue;
+            }
+            const reason = previous.status === "waiting" || previous.status === "clarify"
+                ? "dependia da ação anterior, que aguarda sua resposta. Peça de novo depois de resolvê-la"
+                : "dependia da ação anterior, que não foi concluída";
+            results.push({
+                action: instr.action,
+                status: "skipped",
+                outputText: `Não executei "${instr.action}" porque ${reason}.`,
+                sessionPatch: {},
+            });
+            previousAwaitsConfirmation = false;
+            continue;
+        }
+        ctx.confirmed = confirmedSteps[index] ?? false;
+        const asked = ctx.confirmations.length;
+        const result = await executeInstruction(instr, ctx);
+        previousAwaitsConfirmation = ctx.confirmations.length > asked;
+        results.push(result);
+        Object.assign(sessionPatch, result.sessionPatch);
+        // As próximas ações enxergam os dados já atualizados (ex.: telefone novo para localizar a linha)
+        if (result.status === "done") {
+            for (const key of ["user_name", "user_email", "user_phone"] as const) {
+                if (result.sessionPatch[key]) ctx.sessionVars = { ...ctx.sessionVars, [key]: result.sessionPatch[key] };
+            }
+        }
+    }
+
+    // Todas as confirmações do turno viram UMA pendência (confirmadas ou canceladas juntas),
+    // com as ações que dependem delas
+    const asked = ctx.confirmations.filter((c) => !c.deferred);
+    if (asked.length && sessionId) {
+        const summary = asked.length === 1
+            ? asked[0].summary
+            : `Confirma: ${asked.map((c) => c.summary.replace(/^Confirma /, "").replace(/\?$/, "")).join("; ")}?`;
+        const pending = savePendingAction(sessionId, ctx.confirmations, summary, request);
+        sessionPatch.pending_action_token = pending.token;
+        console.log(`⏸  ${ctx.confirmations.length} ação(ões) aguardando confirmação (${pending.token}).`);
+    }
+
+    // Marca os pedidos atendidos: os próximos turnos começam depois desta mensagem
+    const done = results.filter((r) => r.status === "done");
+    if (done.length) {
+        const triggering = lastUserMessageOf(messages);
+        const inHistory = triggering && (!lastUserMessageRealTime || triggering.message?.text?.trim() === lastUserMessageRealTime);
+        const at = (inHistory && triggering.time) || new Date().toISOString();
+        sessionPatch.edit_last_done_at = at;
+        sessionPatch.edit_fulfilled = JSON.stringify(rememberFulfilled(fulfilled, {
+            at,
+            request,
+            result: done.map((r) => r.outputText).join(" | "),
+        }));
+    }
+
+    let { outputText } = combineResults(results);
+    if (asked.length) {
+        outputText += `\nResponda "sim" para confirmar ou "não" para cancelar.`;
+    }
+
+    console.log("Retorno para Moveo:", outputText);
+    console.log("--- FIM DO LOG DE EDIÇÃO ---\n");
+
+    const failed = results.every((r) => r.status === "failed" || r.status === "skipped");
+    return { outputText, sessionPatch, failed };
+}
+
+//
+// ================ Handler principal ================
+//
+export async function POST(req: NextRequest) {
+    console.log("✓ Webhook editData recebido.");
+    const refusal = await verifyWebhookRequest(req);
+    if (refusal) {
+        console.warn("Webhook editData recusado:", refusal);
+        return moveoResponse(LIVE_KEY, "Requisição não autorizada.", {}, 401);
+    }
+    try {
+        const body = await req.json().catch(() => ({}));
+
+        // Extrai sessionId e variáveis úteis
+        const sessionId = sessionIdFromBody(body);
+
+        const lastUserMessageRealTime = body.input?.text?.trim() || ""; // Capturamos a mensagem em tempo real
+
+        const sessionVars = {
+            user_name:
+                body?.context?.session_variables?.user_name ||
+                body?.context?.$user?.display_name ||
+                "",
+            user_email:
+                body?.context?.session_variables?.user_email ||
+                body?.context?.$user?.email ||
+                "",
+            user_phone: body?.context?.session_variables?.user_phone || "",
+            calendar_email:
+                body?.context?.session_variables?.user_email || "",
+            user_timezone: body?.context?.session_variables?.user_timezone || DEFAULT_TZ,
+        };
+
+        // 1) Buscar histórico (dupla leitura: ver getStableLastMessage)
+        let messages: MoveoMessage[] = [];
+        let lastUserMessage: MoveoMessage | null = null;
+        if (sessionId) {
+            try {
+                ({ messages, lastUserMessage } = await getStableLastMessage(sessionId));
+            } catch (err: any) {
+                console.error("✗ Falha ao buscar SessionContentV2:", err?.message);
+            }
+        } else {
+            console.warn("⚠️  Webhook sem session_id.");
+        }
+
+        // Retries e entregas duplicadas da Moveo (mesma sessão + mesma mensagem) recebem a resposta da
+        // primeira execução: nada é criado ou editado duas vezes. Todo turno passa por aqui; sem o id da
+        // mensagem no histórico, vale a chave de reserva.
+        // Turnos que só falharam (IA/Google fora do ar) não são guardados: o retry roda de novo.
+        const messageKey =
+            userMessageKey(
+                messages,
+                lastUserMessage,
+                lastUserMessageRealTime,
+                body?.context?.session_variables?.edit_last_done_at || undefined
+            ) || fallbackMessageKey(lastUserMessageRealTime, body?.context?.session_variables);
+        const scope = sessionId || body?.context?.$user?.id || body?.channel_user_id || "sem-sessao";
+        const runTurn = () => handleEditTurn({ body, sessionId, sessionVars, messages, lastUserMessageRealTime });
+        const once = await runOnce(`${scope}:${messageKey}`, runTurn, { keep: (r) => !r.failed });
+        if (once.replayed) console.log(`↺ Mensagem ${messageKey} já processada nesta sessão; devolvendo o resultado anterior.`);
+        const reply = once.value;
+
+        return moveoResponse(LIVE_KEY, reply.outputText, reply.sessionPatch);
     } catch (error: any) {
         console.error("✗ ERRO no webhook editData:", error?.message);
-        return NextResponse.json(
-            {
-                context: {
-                    live_instructions: "### Erro\n- Falha interna ao processar sua solicitação.",
-                },
-                output: {
-                    responses: [
-                        { type: "text", texts: ["Erro interno ao processar sua solicitação. Tente novamente."] },
-                    ],
-                },
-            },
-            { status: 500 }
-        );
+        return moveoResponse(LIVE_KEY, "Erro interno ao processar sua solicitação. Tente novamente.", {}, 500);
     }
 }
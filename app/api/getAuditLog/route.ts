@@ -0,0 +1,71 @@
+/**
+ * Rota API: getAuditLog
+ * ------------------------------------------------------------
+ * Finalidade
+ *   - Consulta a trilha de auditoria (append-only) das alterações feitas pelo editData
+ *     (planilha e agenda), para responder "quem mudou o quê e quando".
+ *
+ * Entradas (HTTP GET /api/getAuditLog)
+ *   - Query string (todos opcionais):
+ *     • user  → usuário do canal (id Moveo, telefone ou e-mail gravado na entrada)
+ *     • from  → data/hora inicial (ISO ou yyyy-mm-dd)
+ *     • to    → data/hora final (ISO ou yyyy-mm-dd; yyyy-mm-dd inclui o dia inteiro)
+ *     • limit → máximo de entradas (padrão 100, máx. 1000)
+ *
+ * Saída (200 OK)
+ *   - { "count": <n>, "entries": [ { timestamp, session_id, channel_user, action,
+ *       target, old_value, new_value, user_message }, ... ] }  (mais recentes primeiro)
+ *
+ * Códigos de erro
+ *   - 400: datas inválidas.
+ *   - 401: chamada sem assinatura/segredo válido ('@/lib/webhookAuth').
+ *   - 500: falha ao ler o backend de auditoria.
+ *
+ * Dependências
+ *   - '@/lib/audit' → backend configurado em AUDIT_BACKEND (aba "Auditoria" ou arquivo local).
+ */
+
+import { NextResponse } from 'next/server';
+import { getAuditStore } from '@/lib/audit';
+import { verifyWebhookRequest } from '@/lib/webhookAuth';
+
+const MAX_LIMIT = 1000;
+
+/** Converte o parâmetro de data; yyyy-mm-dd em `to` vai até o fim do dia (UTC). */
+function parseDateParam(value: string | null, endOfDay = false): Date | undefined | null {
+    if (!value) return undefined;
+    const isDateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+    const date = new Date(isDateOnly ? `${value}T${endOfDay ? '23:59:59.999' : '00:00:00'}Z` : value);
+    return isNaN(date.getTime()) ? null : date;
+}
+
+export async function GET(req: Request) {
+    const refusal = await verifyWebhookRequest(req);
+    if (refusal) {
+        console.warn('getAuditLog recusado:', refusal);
+        return NextResponse.json({ error: 'Requisição não autorizada.' }, { status: 401 });
+    }
+    const params = new URL(req.url).searchParams;
+    const from = parseDateParam(params.get('from'));
+    const to = parseDateParam(params.get('to'), true);
+    if (from === null || to === null) {
+        return NextResponse.json(
+            { error: 'Parâmetros "from"/"to" inválidos. Use ISO 8601 ou yyyy-mm-dd.' },
+            { status: 400 }
+        );
+    }
+    const limit = Math.min(Math.max(1, Number(params.get('limit')) || 100), MAX_LIMIT);
+
+    try {
+        const entries = await getAuditStore().query({
+            user: params.get('user') || undefined,
+            from,
+            to,
+            limit,
+        });
+        return NextResponse.json({ count: entries.length, entries });
+    } catch (err: any) {
+        console.error('✗ Erro ao consultar auditoria:', err?.message);
+        return NextResponse.json({ error: 'Não foi possível consultar a auditoria.' }, { status: 500 });
+    }
+}
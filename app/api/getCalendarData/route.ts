@@ -24,7 +24,7 @@
 * - JSON no formato esperado pela Moveo:
 * {
 * "output": {
-* "live_instructions": { "conteudo": "<texto de resposta>" },
+* "live_instructions": { "agenda": "<texto de resposta>" },
 * "session_variables": {
 * "calendar_email": "<email usado>",
 * "last_calendar_query": "<intervalo consultado>",
@@ -35,6 +35,7 @@
 *
 * Códigos de erro
 * - 400: body inválido ou sem `input.text`.
+* - 401: chamada sem assinatura/segredo válido ('@/lib/webhookAuth').
 * - 404: e-mail do calendário não encontrado (nem em sessão, nem na planilha).
 * - 500: falha interna (erros de integração/Google API ou exceções inesperadas).
 *
@@ -43,65 +44,128 @@
 * - Variáveis de ambiente do Google (credenciais) previamente configuradas.
 *
 * Convenções e Observações
-* - Fuso horário padrão: 'America/Sao_Paulo'. Ajuste se necessário.
-* - Formato do retorno SEMPRE segue o envelope da Moveo:
-* output.live_instructions.conteudo
+* - Fuso horário padrão: 'America/Sao_Paulo' (DEFAULT_TZ), ou `session_variables.user_timezone`.
+* - Datas relativas do texto são interpretadas por `parseDateRange` ('@/lib/dates');
+* sem data no texto, consulta os próximos 7 dias.
+* - Modo disponibilidade ("livres", "disponível", "vago" no texto, ou `mode: "availability"`
+* no body): usa a API freebusy e lista janelas livres dentro do expediente
+* (WORK_START/WORK_END/WORK_DAYS) com pelo menos `min_minutes` (padrão MIN_FREE_SLOT_MINUTES).
+* - Formato do retorno SEMPRE segue o envelope da Moveo ('@/lib/moveoResponse'):
+* output.live_instructions.agenda + output.session_variables (inclusive em erros)
 * - Não expor detalhes sensíveis de erros ao usuário.
 * - Evitar dependências extras (ex.: Zod). Validar campos manualmente.
 */
 
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
 import { calendar } from '@/lib/google';
+import { LIVE_INSTRUCTION_KEYS, moveoResponse } from '@/lib/moveoResponse';
+import { verifyWebhookRequest } from '@/lib/webhookAuth';
+import { DEFAULT_TZ, formatShortDateTime, formatZonedIso, parseDateRange } from '@/lib/dates';
+import { computeFreeSlots, fetchBusyBlocks, formatFreeSlots, MIN_FREE_SLOT_MINUTES } from '@/lib/availability';
+
+// Janela padrão quando a mensagem não cita nenhuma data (README: próximos 7 dias)
+const DEFAULT_WINDOW_DAYS = 7;
+
+const LIVE_KEY = LIVE_INSTRUCTION_KEYS.calendar;
+
+// "quais horários livres na quarta?", "tenho disponibilidade amanhã?", "horário vago"
+const AVAILABILITY_RE = /\b(livres?|dispon[ií]ve(l|is)|disponibilidade|vagos?|vagas?)\b/i;
 
 export async function POST(req: NextRequest) {
+    const refusal = await verifyWebhookRequest(req);
+    if (refusal) {
+        console.warn('Webhook getCalendarData recusado:', refusal);
+        return moveoResponse(LIVE_KEY, 'Requisição não autorizada.', {}, 401);
+    }
     try {
         const body = await req.json();
         console.log("CORPO DA REQUISIÇÃO (getCalendarData):", JSON.stringify(body, null, 2));
 
-        const userEmail = body.context.session_variables.user_email;
+        const sessionVariables = body.context?.session_variables || body.session_variables || {};
+        const userEmail = sessionVariables.user_email;
+        const userText: string = typeof body.input?.text === 'string' ? body.input.text : '';
+        const timeZone: string = sessionVariables.user_timezone || DEFAULT_TZ;
 
         if (!userEmail) {
-            return NextResponse.json({
-                output: { live_instructions: { agenda: 'E-mail do usuário não foi passado para este webhook.' } }
+            return moveoResponse(LIVE_KEY, 'E-mail do usuário não foi passado para este webhook.');
+        }
+
+        // Interpreta "hoje", "amanhã 14h", "quarta", "dia 25/10"... no fuso do usuário
+        const now = new Date();
+        const range = parseDateRange(userText, { timeZone, now }) || {
+            timeMin: now,
+            timeMax: new Date(now.getTime() + DEFAULT_WINDOW_DAYS * 24 * 60 * 60 * 1000),
+            label: `próximos ${DEFAULT_WINDOW_DAYS} dias`,
+            hasTime: false,
+        };
+        const lastCalendarQuery = `${formatZonedIso(range.timeMin, timeZone)}/${formatZonedIso(range.timeMax, timeZone)}`;
+        console.log(`Intervalo consultado (${range.label}): ${lastCalendarQuery}`);
+
+        // ===== Modo disponibilidade: janelas livres dentro do expediente =====
+        if (body.mode === 'availability' || AVAILABILITY_RE.test(userText)) {
+            const minMinutes = Number(body.min_minutes) > 0 ? Number(body.min_minutes) : MIN_FREE_SLOT_MINUTES;
+            // Não oferece horários que já passaram ("livres hoje" começa agora)
+            const timeMin = range.timeMin.getTime() < now.getTime() ? now : range.timeMin;
+            const busy = await fetchBusyBlocks({ calendarId: userEmail, timeMin, timeMax: range.timeMax, timeZone });
+            const freeSlots = computeFreeSlots({ busy, timeMin, timeMax: range.timeMax, timeZone, minMinutes });
+
+            const availabilityMessage = freeSlots.length
+                ? `\n### Horários livres (${range.label})\n${formatFreeSlots(freeSlots, timeZone)}`
+                : `Não encontrei horários livres de pelo menos ${minMinutes} minutos em ${range.label}.`;
+            return moveoResponse(LIVE_KEY, availabilityMessage, {
+                calendar_email: userEmail,
+                last_calendar_query: lastCalendarQuery,
+                last_calendar_result_count: freeSlots.length,
             });
         }
 
         const response = await calendar.events.list({
             calendarId: userEmail,
-            timeMin: (new Date()).toISOString(),
-            maxResults: 10,
+            timeMin: range.timeMin.toISOString(),
+            timeMax: range.timeMax.toISOString(),
+            timeZone,
+            maxResults: 50,
             singleEvents: true,
             orderBy: 'startTime',
         });
 
-        const events = response.data.items;
-        if (!events || events.length === 0) {
-            return NextResponse.json({
-                output: { live_instructions: { agenda: 'Nenhum compromisso encontrado para os próximos dias.' } },
-            });
+        const events = response.data.items || [];
+        const sessionVariablesOut = {
+            calendar_email: userEmail,
+            last_calendar_query: lastCalendarQuery,
+            last_calendar_result_count: events.length,
+        };
+
+        if (events.length === 0) {
+            const emptyMessage = range.hasTime
+                ? `Você está livre em ${range.label}. Nenhum compromisso nesse horário.`
+                : `Nenhum compromisso encontrado para ${range.label}.`;
+            return moveoResponse(LIVE_KEY, emptyMessage, sessionVariablesOut);
         }
 
         const formattedAgenda = events.map(event => {
-            const start = event.start?.dateTime || event.start?.date;
+            if (event.start?.date && !event.start?.dateTime) {
+                const [, month, day] = event.start.date.split('-');
+                return `- **${event.summary}**: ${day}/${month} (dia inteiro)`;
+            }
+            const start = event.start?.dateTime;
             if (!start) return '';
-            return `- **${event.summary}**: ${new Date(start).toLocaleString('pt-BR', { timeZone: 'America/Sao_Paulo' })}`;
+            return `- **${event.summary}**: ${formatShortDateTime(new Date(start), timeZone)}`;
         }).join('\n');
 
-        const markdownOutput = `\n### Próximos Compromissos\n${formattedAgenda}`;
+        const title = range.hasTime ? `Compromissos em ${range.label}` : `Compromissos (${range.label})`;
+        const markdownOutput = `\n### ${title}\n${formattedAgenda}`;
 
-        return NextResponse.json({
-            output: { live_instructions: { agenda: markdownOutput } },
-        });
+        return moveoResponse(LIVE_KEY, markdownOutput, sessionVariablesOut);
 
     } catch (error: any) {
         console.error('ERRO no webhook getCalendarData:', error.message);
         if (error.code === 404) {
-            return NextResponse.json({
-                output: { live_instructions: { agenda: 'Não consegui acessar sua agenda. Verifique se ela foi compartilhada corretamente com o e-mail da Service Account.' } },
-            });
+            return moveoResponse(
+                LIVE_KEY,
+                'Não consegui acessar sua agenda. Verifique se ela foi compartilhada corretamente com o e-mail da Service Account.'
+            );
         }
-        return NextResponse.json({
-            output: { live_instructions: { agenda: 'Ocorreu um erro interno ao buscar a agenda.' } },
-        }, { status: 500 });
+        return moveoResponse(LIVE_KEY, 'Ocorreu um erro interno ao buscar a agenda.', {}, 500);
     }
 }
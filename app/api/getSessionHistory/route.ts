@@ -0,0 +1,140 @@
+/**
+ * Rota API: getSessionHistory
+ * ------------------------------------------------------------
+ * Finalidade
+ *   - Resume em markdown o histórico de uma sessão da Moveo (metadados + últimas mensagens),
+ *     para o agente humano que assume a conversa (handoff) não precisar reler tudo.
+ *
+ * Entradas (HTTP POST /app/api/getSessionHistory/route.ts)
+ *   - Body (JSON):
+ *     {
+ *       "context": { "session_id": "<sessão a resumir>" },
+ *       "max_messages": 30   (opcional; padrão HISTORY_MAX_MESSAGES)
+ *     }
+ *     • O session_id é aceito nos mesmos lugares que o editData (ver `sessionIdFromBody`).
+ *
+ * Saída (200 OK)
+ *   - JSON no formato esperado pela Moveo ('@/lib/moveoResponse'):
+ *     {
+ *       "output": {
+ *         "live_instructions": { "historico": "<resumo em markdown>" },
+ *         "session_variables": { "history_message_count": <mensagens na sessão> }
+ *       }
+ *     }
+ *
+ * Códigos de erro
+ *   - 400: sem session_id.
+ *   - 401: chamada sem assinatura/segredo válido ('@/lib/webhookAuth').
+ *   - 404: a Analytics não tem registro da sessão.
+ *   - 500: falha na Moveo Analytics (HTTP, GraphQL, timeout) ou exceção inesperada.
+ *
+ * Dependências
+ *   - '@/lib/moveo' → cliente da Moveo Analytics (MOVEO_ANALYTICS_API_KEY, MOVEO_ACCOUNT_ID).
+ *   - (opcional) HISTORY_MAX_MESSAGES (padrão 30), DEFAULT_TZ para os horários.
+ *
+ * Observações
+ *   - Só mensagens com texto entram no resumo; mensagens longas são encurtadas.
+ *   - O texto de erro da Analytics vai para o log, nunca para o usuário.
+ */
+
+import { NextRequest } from 'next/server';
+import { LIVE_INSTRUCTION_KEYS, moveoResponse } from '@/lib/moveoResponse';
+import { verifyWebhookRequest } from '@/lib/webhookAuth';
+import { formatShortDateTime, formatTime } from '@/lib/dates';
+import { fetchSessionContent, messageText, sessionIdFromBody, type MoveoMessage, type MoveoSession } from '@/lib/moveo';
+
+const LIVE_KEY = LIVE_INSTRUCTION_KEYS.history;
+
+const HISTORY_MAX_MESSAGES = Number(process.env.HISTORY_MAX_MESSAGES || 30);
+// Mensagens maiores que isso são cortadas no resumo
+const MAX_MESSAGE_CHARS = 300;
+
+/** Quem falou: usuário, bot ou agente humano. */
+function speakerOf(m: MoveoMessage): string | null {
+    if (m.event === 'message:received') return 'Usuário';
+    if (m.agent_id) return 'Agente';
+    if (m.event === 'message:brain_send') return 'Bot';
+    return null;
+}
+
+function formatWhen(value?: string | null, timeOnly = false): string {
+    if (!value) return '';
+    const date = new Date(value);
+    if (isNaN(date.getTime())) return '';
+    return timeOnly ? formatTime(date) : formatShortDateTime(date);
+}
+
+function truncate(text: string): string {
+    const oneLine = text.replace(/\s+/g, ' ').trim();
+    return oneLine.length > MAX_MESSAGE_CHARS ? `${oneLine.slice(0, MAX_MESSAGE_CHARS - 1)}…` : oneLine;
+}
+
+/** Cabeçalho com os metadados relevantes para quem assume a conversa (campos vazios são omitidos). */
+function describeSession(session: MoveoSession): string[] {
+    const user = [session.user_name, session.user_email].filter(Boolean).join(' — ');
+    const period = [formatWhen(session.start_time), formatWhen(session.end_time)].filter(Boolean).join(' → ');
+    const lines: Array<[string, unknown]> = [
+        ['Sessão', session.session_id],
+        ['Usuário', user],
+        ['Canal', session.channel],
+        ['Período', period],
+        ['Mensagens do usuário', session.total_user_messages],
+        ['Agentes que participaram', session.participated_agents?.join(', ')],
+        ['Tags', session.tags?.join(', ')],
+        ['Avaliação', session.rating],
+        ['Feedback', session.feedback],
+    ];
+    return lines
+        .filter(([, value]) => value !== undefined && value !== null && value !== '')
+        .map(([label, value]) => `- **${label}:** ${value}`);
+}
+
+function buildSummary(session: MoveoSession, maxMessages: number): string {
+    const transcript = session.messages
+        .map((m) => ({ speaker: speakerOf(m), text: truncate(messageText(m)), time: formatWhen(m.time, true) }))
+        .filter((m) => m.speaker && m.text);
+    const shown = transcript.slice(-maxMessages);
+
+    const out = ['### Histórico da sessão', ...describeSession(session), ''];
+    if (!shown.length) {
+        out.push('_Nenhuma mensagem registrada._');
+        return out.join('\n');
+    }
+    out.push(
+        shown.length < transcript.length
+            ? `#### Conversa (últimas ${shown.length} de ${transcript.length} mensagens)`
+            : '#### Conversa'
+    );
+    for (const m of shown) {
+        out.push(`- **${m.speaker}**${m.time ? ` (${m.time})` : ''}: ${m.text}`);
+    }
+    return out.join('\n');
+}
+
+export async function POST(req: NextRequest) {
+    const refusal = await verifyWebhookRequest(req);
+    if (refusal) {
+        console.warn('Webhook getSessionHistory recusado:', refusal);
+        return moveoResponse(LIVE_KEY, 'Requisição não autorizada.', {}, 401);
+    }
+    try {
+        const body = await req.json().catch(() => ({}));
+        const sessionId = sessionIdFromBody(body);
+        if (!sessionId) {
+            return moveoResponse(LIVE_KEY, 'Não recebi o session_id da conversa a resumir.', {}, 400);
+        }
+        const maxMessages = Math.max(1, Number(body?.max_messages) || HISTORY_MAX_MESSAGES);
+
+        const session = await fetchSessionContent(sessionId);
+        if (!session) {
+            return moveoResponse(LIVE_KEY, 'Não encontrei o histórico desta conversa.', {}, 404);
+        }
+
+        return moveoResponse(LIVE_KEY, buildSummary(session, maxMessages), {
+            history_message_count: session.messages.length,
+        });
+    } catch (error: any) {
+        console.error('ERRO no webhook getSessionHistory:', error?.message);
+        return moveoResponse(LIVE_KEY, 'Não consegui carregar o histórico da conversa agora. Tente novamente.', {}, 500);
+    }
+}
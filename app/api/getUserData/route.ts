@@ -2,108 +2,112 @@
  * Rota API: getUserData
  * ------------------------------------------------------------
  * Finalidade
- *   - Recebe um texto (número de telefone) vindo do agente Moveo,
- *     busca os dados do usuário em uma planilha do Google Sheets
+ *   - Identifica o usuário (telefone, e-mail ou CPF) a partir do texto vindo do agente Moveo
+ *     e/ou das variáveis de sessão, busca a linha dele na planilha do Google Sheets
  *     e devolve as instruções + variáveis de sessão para uso no chat.
  *
  * Entradas (HTTP POST /app/api/getUserData/route.ts)
- *   - Body (JSON): { "input": { "text": "<telefone ou mensagem>" }, ... }
- *     • O telefone pode vir com símbolos/espaços. A rota normaliza para dígitos.
+ *   - Body (JSON):
+ *     {
+ *       "input": { "text": "<telefone, e-mail, CPF ou mensagem>" },
+ *       "context": { "session_variables": { "user_email": "...", "user_phone": "...", "user_cpf": "..." } }
+ *     }
+ *     • Basta um identificador. O que vier no texto tem prioridade sobre a sessão.
+ *     • `session_variables` também é aceito na raiz do body.
  *
  * Saída (200 OK)
- *   - JSON no formato esperado pela Moveo:
+ *   - JSON no formato esperado pela Moveo (montado por '@/lib/moveoResponse'; erros usam o mesmo envelope):
  *     {
  *       "output": {
- *         "live_instructions": { "conteudo": "<texto de resposta para o usuário>" },
+ *         "live_instructions": { "conteudo": "<dados do usuário em markdown>" },
  *         "session_variables": {
  *           "user_email": "<email>",
  *           "user_phone": "<telefone>",
- *           "user_name": "<nome>"
+ *           "user_name": "<nome>",
+ *           ... (demais campos do registro com `sessionKey`)
  *         }
  *       }
  *     }
  *
  * Códigos de erro
- *   - 400: body inválido ou texto ausente.
- *   - 404: usuário não localizado na planilha.
+ *   - 400: body inválido ou nenhum identificador (texto/sessão).
+ *   - 401: chamada sem assinatura/segredo válido ('@/lib/webhookAuth').
  *   - 500: falha interna (erros de integração ou exceções inesperadas).
+ *   - Usuário não localizado → 200 convidando ao autocadastro (`user_registered: false`; o cadastro
+ *     em si é feito pelo editData, ação `register_user`).
  *
  * Dependências
- *   - '@/lib/google' → provê o cliente `sheets` (Google Sheets API).
- *   - Variáveis de ambiente de credenciais do Google já configuradas.
+ *   - '@/lib/userSheet'     → leitura da planilha e busca da linha pelo cabeçalho (a mesma do editData).
+ *   - '@/lib/fieldRegistry' → colunas configuradas (todas são devolvidas, na ordem do registro).
+ *   - Variáveis de ambiente: SHEET_ID, SHEET_RANGE e credenciais do Google.
  *
  * Observações de implementação
- *   - O número de telefone é limpo para conter apenas dígitos.
- *   - A busca prioriza correspondência exata (após normalização) nas colunas
- *     relacionadas a telefone/celular/phone.
+ *   - Telefones são comparados na forma canônica (com/sem +55, com/sem o 9º dígito).
+ *   - CPF é reconhecido no texto quando vem formatado (000.000.000-00) ou precedido de "CPF".
  *   - Logs são enviados via `console.log`/`console.error` para depuração.
  */
 
-import { NextRequest, NextResponse } from 'next/server';
-import { sheets } from '@/lib/google';
+import { NextRequest } from 'next/server';
+import { LIVE_INSTRUCTION_KEYS, moveoResponse } from '@/lib/moveoResponse';
+import { verifyWebhookRequest } from '@/lib/webhookAuth';
+import { findRowIndexByIdentifier, identityFromText, readSheetAll, readUserRecord, type UserIdentity } from '@/lib/userSheet';
+
+const LIVE_KEY = LIVE_INSTRUCTION_KEYS.userData;
 
 export async function POST(req: NextRequest) {
+    const refusal = await verifyWebhookRequest(req);
+    if (refusal) {
+        console.warn('Webhook getUserData recusado:', refusal);
+        return moveoResponse(LIVE_KEY, 'Requisição não autorizada.', {}, 401);
+    }
     try {
         const body = await req.json();
         console.log("CORPO DA REQUISIÇÃO (getUserData):", JSON.stringify(body, null, 2));
-        
-        let phoneNumberInput = body.input.text;
-
-        if (!phoneNumberInput || typeof phoneNumberInput !== 'string') {
-            return NextResponse.json({ output: { text: "Input de texto do usuário não encontrado." } }, { status: 400 });
-        }
 
-        // Lógica para limpar e padronizar o número de telefone
-        // 1. Limpa a entrada do usuário para conter apenas dígitos.
-        let normalizedPhone = phoneNumberInput.replace(/\D/g, '');
+        const sessionVariables = body?.context?.session_variables || body?.session_variables || {};
+        const userText: string = typeof body?.input?.text === 'string' ? body.input.text : '';
 
-        // 2. Extrai os últimos 11 dígitos como a "chave" de busca.
-        // Isso funciona para "119..." e para "55119...".
-        const userPhoneKey = normalizedPhone.slice(-11);
-
-        const spreadsheetId = process.env.SHEET_ID;
-        const range = 'Página1!A:C';
-
-        const response = await sheets.spreadsheets.values.get({ spreadsheetId, range });
-        const rows = response.data.values;
-        if (!rows || rows.length <= 1) {
-            return NextResponse.json({ output: { live_instructions: { conteudo: 'A planilha está vazia.' } } });
+        // O que o usuário acabou de digitar vale mais que o que já estava na sessão
+        const fromText = identityFromText(userText);
+        const identity: UserIdentity = {
+            email: fromText.email || sessionVariables.user_email || undefined,
+            phone: fromText.phone || sessionVariables.user_phone || undefined,
+            cpf: fromText.cpf || sessionVariables.user_cpf || undefined,
+        };
+        if (!identity.email && !identity.phone && !identity.cpf) {
+            return moveoResponse(LIVE_KEY, "Não recebi telefone, e-mail ou CPF para localizar seu cadastro.", {}, 400);
         }
 
-        // --- LÓGICA DE BUSCA FLEXÍVEL ---
-        const userRow = rows.slice(1).find(row => {
-            const phoneFromSheet = row[1] || ''; // Pega o número da planilha
+        const rows = await readSheetAll();
+        if (!rows.length) {
+            return moveoResponse(LIVE_KEY, 'A planilha está vazia.');
+        }
 
-            // 3. Aplica A MESMA lógica de normalização ao dado da planilha.
-            const sheetPhoneClean = phoneFromSheet.replace(/\D/g, '');
-            const sheetPhoneKey = sheetPhoneClean.slice(-11);
+        // Identificadores digitados são tentados antes dos da sessão
+        let rowIndex = findRowIndexByIdentifier(rows, undefined, fromText);
+        if (rowIndex < 0) rowIndex = findRowIndexByIdentifier(rows, undefined, identity);
+        if (rowIndex < 0) {
+            // Oferece o autocadastro (register_user no editData); o telefone buscado já fica na sessão
+            return moveoResponse(
+                LIVE_KEY,
+                'Não encontrei seu cadastro com os dados informados. Quer se cadastrar? É só me mandar seu nome completo e e-mail.',
+                { user_registered: false, user_phone: identity.phone, user_email: identity.email }
+            );
+        }
 
-            // 4. Compara apenas as chaves de 11 dígitos.
-            return sheetPhoneKey === userPhoneKey && userPhoneKey.length === 11;
-        });
+        const record = readUserRecord(rows, rowIndex);
+        const formattedContent =
+            `### Dados do Usuário\n` + record.map(({ field, value }) => `- **${field.header}:** ${value || '-'}`).join('\n');
 
-        if (!userRow) {
-            return NextResponse.json({ output: { live_instructions: { conteudo: 'Usuário não encontrado com este número de telefone.' } } });
+        const sessionOut: Record<string, string> = {};
+        for (const { field, value } of record) {
+            if (field.sessionKey) sessionOut[field.sessionKey] = value;
         }
 
-        const userData = { nome: userRow[0], telefone: userRow[1], email: userRow[2] };
-        const formattedContent = `### Dados do Usuário\n- **Nome:** ${userData.nome}\n- **Telefone:** ${userData.telefone}\n- **Email:** ${userData.email}`;
-
-        return NextResponse.json({
-            output: {
-                live_instructions: { conteudo: formattedContent },
-                session_variables: {
-                    user_email: userData.email,
-                    user_phone: userData.telefone,
-                    user_name: userData.nome
-                }
-            },
-        });
+        return moveoResponse(LIVE_KEY, formattedContent, { ...sessionOut, user_registered: true });
 
     } catch (error: any) {
         console.error('ERRO no webhook getUserData:', error.message);
-        return NextResponse.json({
-            output: { live_instructions: { conteudo: 'Ocorreu um erro interno ao buscar seus dados.' } },
-        }, { status: 500 });
+        return moveoResponse(LIVE_KEY, 'Ocorreu um erro interno ao buscar seus dados.', {}, 500);
     }
 }
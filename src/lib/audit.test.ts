@@ -0,0 +1,147 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeEach, describe, expect, it } from 'vitest';
+import { getAuditStore, pseudonymizeAudit, recordAudit, type AuditEntry } from '@/lib/audit';
+
+// Backend em arquivo: getAuditStore lê o ENV no primeiro uso, dentro dos testes
+const AUDIT_FILE = path.join(os.tmpdir(), `audit-test-${process.pid}.jsonl`);
+process.env.AUDIT_BACKEND = 'file';
+process.env.AUDIT_FILE_PATH = AUDIT_FILE;
+
+const REDACTED = '[dado pessoal removido]';
+
+function entry(overrides: Partial<Omit<AuditEntry, 'timestamp'>>): Omit<AuditEntry, 'timestamp'> {
+    return {
+        session_id: 's1',
+        channel_user: 'ana-canal',
+        action: 'update_phone',
+        target: 'Página1!id:ana-uuid/telefone',
+        old_value: '+5511999990000',
+        new_value: '+5511988887777',
+        user_message: 'muda meu telefone para 11 98888-7777',
+        ...overrides,
+    };
+}
+
+async function readAll(): Promise<AuditEntry[]> {
+    return getAuditStore().query({ limit: 100 });
+}
+
+beforeEach(async () => {
+    await fs.writeFile(AUDIT_FILE, '', 'utf8');
+});
+
+afterAll(async () => {
+    await fs.rm(AUDIT_FILE, { force: true });
+});
+
+describe('recordAudit', () => {
+    it('grava as entradas com o mesmo timestamp e as devolve na consulta', async () => {
+        await recordAudit([entry({}), entry({ action: 'update_email', target: 'Página1!id:ana-uuid/email' })]);
+
+        const entries = await readAll();
+        expect(entries).toHaveLength(2);
+        expect(entries.map((e) => e.action).sort()).toEqual(['update_email', 'update_phone']);
+        expect(entries[0].timestamp).toBe(entries[1].timestamp);
+        expect(Date.parse(entries[0].timestamp)).not.toBeNaN();
+    });
+
+    it('não grava nada para uma lista vazia', async () => {
+        await recordAudit([]);
+        expect(await readAll()).toEqual([]);
+    });
+
+    it('filtra por usuário do canal', async () => {
+        await recordAudit([entry({}), entry({ channel_user: 'bruno-canal', target: 'Página1!id:bruno-uuid/telefone' })]);
+
+        const entries = await getAuditStore().query({ user: 'BRUNO-CANAL' });
+        expect(entries.map((e) => e.target)).toEqual(['Página1!id:bruno-uuid/telefone']);
+    });
+});
+
+describe('pseudonymizeAudit', () => {
+    it('pseudonimiza as entradas do titular pelo ID da linha, mesmo pedidas por outro usuário do canal', async () => {
+        await recordAudit([
+            entry({}),
+            // Atendente alterando a linha da Ana: o alvo (ID) diz de quem é
+            entry({ channel_user: 'atendente', user_message: 'corrige o telefone da Ana' }),
+            entry({ channel_user: 'bruno-canal', target: 'Página1!id:bruno-uuid/telefone', old_value: '+5511911112222', new_value: '+5511933334444', user_message: 'meu novo número' }),
+        ]);
+
+        const { pseudonym, changed } = await pseudonymizeAudit({
+            channelUsers: ['ana-canal'],
+            targets: ['Página1!id:ana-uuid'],
+            values: [],
+        });
+
+        expect(changed).toBe(2);
+        expect(pseudonym).toMatch(/^titular-removido:/);
+        const entries = await readAll();
+        const ana = entries.filter((e) => e.target.startsWith('Página1!id:ana-uuid'));
+        expect(ana).toHaveLength(2);
+        for (const e of ana) {
+            expect(e.old_value).toBe(REDACTED);
+            expect(e.new_value).toBe(REDACTED);
+            expect(e.user_message).toBe(REDACTED);
+            // Ação, alvo e horário ficam como registro da alteração
+            expect(e.action).toBe('update_phone');
+            expect(e.timestamp).toBeTruthy();
+        }
+        expect(ana.map((e) => e.channel_user).sort()).toEqual(['atendente', pseudonym]);
+
+        const bruno = entries.find((e) => e.target.startsWith('Página1!id:bruno-uuid'))!;
+        expect(bruno.old_value).toBe('+5511911112222');
+        expect(bruno.channel_user).toBe('bruno-canal');
+    });
+
+    it('não confunde a linha de outra pessoa que passou a ocupar o mesmo número de linha', async () => {
+        // Entradas pelo ID: a ordem das linhas na planilha não importa
+        await recordAudit([entry({ channel_user: 'bruno-canal', target: 'Página1!id:bruno-uuid/telefone', old_value: '+5511911112222' })]);
+
+        const { changed } = await pseudonymizeAudit({
+            channelUsers: ['ana-canal'],
+            targets: ['Página1!id:ana-uuid'],
+            values: [],
+        });
+
+        expect(changed).toBe(0);
+        expect((await readAll())[0].old_value).toBe('+5511911112222');
+    });
+
+    it('remove os dados do titular das entradas de terceiros, só como palavra inteira', async () => {
+        await recordAudit([
+            entry({
+                channel_user: 'bruno-canal',
+                action: 'create_event',
+                target: 'event:abc',
+                old_value: '',
+                new_value: '{"summary":"Reunião com Ana Silva","attendees":["ana@empresa.com"]}',
+                user_message: 'marca reunião com a Ana Silva; depois compro banana',
+            }),
+        ]);
+
+        const { changed } = await pseudonymizeAudit({
+            channelUsers: ['ana-canal'],
+            targets: ['Página1!id:ana-uuid'],
+            values: ['Ana Silva', 'ana@empresa.com', 'Ana'],
+        });
+
+        expect(changed).toBe(1);
+        const [e] = await readAll();
+        expect(e.channel_user).toBe('bruno-canal');
+        expect(e.new_value).toBe(`{"summary":"Reunião com ${REDACTED}","attendees":["${REDACTED}"]}`);
+        expect(e.user_message).toBe(`marca reunião com a ${REDACTED}; depois compro banana`);
+    });
+
+    it('cobre células de uma linha sem ID pelo número da linha', async () => {
+        await recordAudit([entry({ target: 'Página1!R5C2' }), entry({ channel_user: 'bruno-canal', target: 'Página1!R50C2' })]);
+
+        const { changed } = await pseudonymizeAudit({ channelUsers: [], targets: ['Página1!R5'], values: [] });
+
+        expect(changed).toBe(1);
+        const entries = await readAll();
+        expect(entries.find((e) => e.target === 'Página1!R5C2')!.old_value).toBe(REDACTED);
+        expect(entries.find((e) => e.target === 'Página1!R50C2')!.old_value).toBe('+5511999990000');
+    });
+});
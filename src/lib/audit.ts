@@ -0,0 +1,256 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { sheets } from '@/lib/google';
+
+/**
+ * Trilha de auditoria (append-only) de todas as alterações feitas pelo bot.
+ *
+ * Backends:
+ * - "sheets" (padrão): aba "Auditoria" na mesma planilha (SHEET_ID), criada automaticamente.
+ * - "file": arquivo JSONL local — útil em testes/desenvolvimento, sem acesso ao Google.
+ *
+ * Exceção ao append-only: na exclusão de dados (LGPD), `pseudonymizeAudit` reescreve as entradas do
+ * titular, trocando os dados pessoais por um marcador (o registro de que houve a alteração permanece).
+ *
+ * ENV opcionais:
+ * - AUDIT_BACKEND ("sheets" | "file")
+ * - AUDIT_SHEET_NAME (padrão "Auditoria")
+ * - AUDIT_FILE_PATH (padrão "./audit-log.jsonl")
+ */
+
+export type AuditEntry = {
+    timestamp: string; // ISO (UTC)
+    session_id: string;
+    channel_user: string; // usuário do canal (id Moveo) ou, na falta, telefone/e-mail da sessão
+    action: string;
+    target: string; // ex.: "Página1!id:<uuid>/telefone" (ou "Página1!R5C2", sem coluna id) ou "event:abc123"
+    old_value: string;
+    new_value: string;
+    user_message: string; // mensagem que originou a alteração
+};
+
+export type AuditQuery = {
+    user?: string; // compara com channel_user (sem diferenciar maiúsculas)
+    from?: Date;
+    to?: Date;
+    limit?: number;
+};
+
+export interface AuditStore {
+    append(entries: AuditEntry[]): Promise<void>;
+    query(filter: AuditQuery): Promise<AuditEntry[]>;
+    /** Reescreve as entradas para as quais `transform` devolve uma nova versão (null = mantém). @returns quantas mudaram. */
+    rewrite(transform: (entry: AuditEntry) => AuditEntry | null): Promise<number>;
+}
+
+/** Titular cujas entradas serão pseudonimizadas (ver `pseudonymizeAudit`). */
+export type AuditSubject = {
+    channelUsers: string[]; // como o titular aparece em channel_user (id do canal, telefone, e-mail)
+    targets: string[]; // alvos que são dele: a linha ("Página1!id:<uuid>", cobre as células "…/telefone") e os eventos ("event:abc")
+    values: string[]; // dados pessoais atuais, removidos também de entradas de terceiros
+};
+
+const AUDIT_COLUMNS: Array<keyof AuditEntry> = [
+    'timestamp',
+    'session_id',
+    'channel_user',
+    'action',
+    'target',
+    'old_value',
+    'new_value',
+    'user_message',
+];
+
+/** Filtro e ordenação comuns aos backends: mais recentes primeiro. */
+function applyQuery(entries: AuditEntry[], filter: AuditQuery): AuditEntry[] {
+    const user = filter.user?.trim().toLowerCase();
+    return entries
+        .filter((e) => {
+            if (user && e.channel_user.trim().toLowerCase() !== user) return false;
+            const t = new Date(e.timestamp).getTime();
+            if (filter.from && t < filter.from.getTime()) return false;
+            if (filter.to && t > filter.to.getTime()) return false;
+            return true;
+        })
+        .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+        .slice(0, filter.limit ?? 100);
+}
+
+//
+// ================ Backend: Google Sheets ================
+//
+export function createSheetsAuditStore(
+    spreadsheetId: string = process.env.SHEET_ID!,
+    sheetName: string = process.env.AUDIT_SHEET_NAME || 'Auditoria'
+): AuditStore {
+    let ensured = false;
+
+    // Cria a aba (com cabeçalho) na primeira escrita, se ainda não existir
+    async function ensureSheet() {
+        if (ensured) return;
+        const meta = await sheets.spreadsheets.get({ spreadsheetId, fields: 'sheets.properties.title' });
+        const exists = meta.data.sheets?.some((s) => s.properties?.title === sheetName);
+        if (!exists) {
+            await sheets.spreadsheets.batchUpdate({
+                spreadsheetId,
+                requestBody: { requests: [{ addSheet: { properties: { title: sheetName } } }] },
+            });
+            await sheets.spreadsheets.values.update({
+                spreadsheetId,
+                range: `${sheetName}!A1`,
+                valueInputOption: 'RAW',
+                requestBody: { values: [AUDIT_COLUMNS] },
+            });
+        }
+        ensured = true;
+    }
+
+    return {
+        async append(entries) {
+            if (!entries.length) return;
+            await ensureSheet();
+            await sheets.spreadsheets.values.append({
+                spreadsheetId,
+                range: `${sheetName}!A:H`,
+                valueInputOption: 'RAW',
+                insertDataOption: 'INSERT_ROWS',
+                requestBody: { values: entries.map((e) => AUDIT_COLUMNS.map((c) => e[c])) },
+            });
+        },
+        async query(filter) {
+            const res = await sheets.spreadsheets.values.get({ spreadsheetId, range: `${sheetName}!A:H` });
+            const rows: string[][] = (res.data.values as any) || [];
+            const entries = rows.slice(1).map((row) => {
+                const entry = {} as AuditEntry;
+                AUDIT_COLUMNS.forEach((c, i) => (entry[c] = String(row[i] ?? '')));
+                return entry;
+            });
+            return applyQuery(entries, filter);
+        },
+        async rewrite(transform) {
+            const res = await sheets.spreadsheets.values.get({ spreadsheetId, range: `${sheetName}!A:H` });
+            const rows: string[][] = (res.data.values as any) || [];
+            const data: Array<{ range: string; values: string[][] }> = [];
+            rows.forEach((row, i) => {
+                if (i === 0) return; // cabeçalho
+                const entry = {} as AuditEntry;
+                AUDIT_COLUMNS.forEach((c, j) => (entry[c] = String(row[j] ?? '')));
+                const next = transform(entry);
+                if (next) data.push({ range: `${sheetName}!A${i + 1}:H${i + 1}`, values: [AUDIT_COLUMNS.map((c) => next[c])] });
+            });
+            if (data.length) {
+                await sheets.spreadsheets.values.batchUpdate({
+                    spreadsheetId,
+                    requestBody: { valueInputOption: 'RAW', data },
+                });
+            }
+            return data.length;
+        },
+    };
+}
+
+//
+// ================ Backend: arquivo JSONL local ================
+//
+export function createFileAuditStore(filePath: string = process.env.AUDIT_FILE_PATH || './audit-log.jsonl'): AuditStore {
+    const resolved = path.resolve(filePath);
+    return {
+        async append(entries) {
+            if (!entries.length) return;
+            await fs.mkdir(path.dirname(resolved), { recursive: true });
+            await fs.appendFile(resolved, entries.map((e) => JSON.stringify(e)).join('\n') + '\n', 'utf8');
+        },
+        async query(filter) {
+            const content = await fs.readFile(resolved, 'utf8').catch(() => '');
+            const entries = content
+                .split('\n')
+                .filter(Boolean)
+                .map((line) => JSON.parse(line) as AuditEntry);
+            return applyQuery(entries, filter);
+        },
+        async rewrite(transform) {
+            const content = await fs.readFile(resolved, 'utf8').catch(() => '');
+            let changed = 0;
+            const lines = content
+                .split('\n')
+                .filter(Boolean)
+                .map((line) => {
+                    const next = transform(JSON.parse(line) as AuditEntry);
+                    if (!next) return line;
+                    changed++;
+                    return JSON.stringify(next);
+                });
+            if (changed) await fs.writeFile(resolved, lines.join('\n') + '\n', 'utf8');
+            return changed;
+        },
+    };
+}
+
+let store: AuditStore | null = null;
+
+/** Backend configurado em AUDIT_BACKEND (instância única por processo). */
+export function getAuditStore(): AuditStore {
+    if (!store) {
+        store = process.env.AUDIT_BACKEND === 'file' ? createFileAuditStore() : createSheetsAuditStore();
+    }
+    return store;
+}
+
+/**
+ * Grava entradas na trilha de auditoria. Falhas são logadas, mas não interrompem
+ * a resposta ao usuário (a alteração em si já foi feita).
+ */
+export async function recordAudit(entries: Array<Omit<AuditEntry, 'timestamp'>>) {
+    if (!entries.length) return;
+    const timestamp = new Date().toISOString();
+    try {
+        await getAuditStore().append(entries.map((e) => ({ timestamp, ...e })));
+    } catch (err: any) {
+        console.error('✗ Falha ao gravar auditoria:', err?.message, JSON.stringify(entries));
+    }
+}
+
+const REDACTED = '[dado pessoal removido]';
+
+/**
+ * Pseudonimiza a trilha de um titular (exclusão LGPD): nas entradas dele (channel_user ou alvo), valores
+ * antigo/novo e a mensagem viram um marcador e o channel_user vira um pseudônimo aleatório; nas demais,
+ * só os dados pessoais atuais dele são trocados pelo marcador. Ação, alvo e horário permanecem.
+ * @returns o pseudônimo usado e quantas entradas mudaram.
+ */
+export async function pseudonymizeAudit(subject: AuditSubject): Promise<{ pseudonym: string; changed: number }> {
+    const pseudonym = `titular-removido:${randomUUID().slice(0, 8)}`;
+    const users = new Set(subject.channelUsers.map((u) => u.trim().toLowerCase()).filter(Boolean));
+    const values = subject.values.map((v) => v.trim()).filter((v) => v.length >= 3); // valores curtos demais casariam em qualquer texto
+    const isSubjects = (e: AuditEntry) =>
+        users.has(e.channel_user.trim().toLowerCase()) ||
+        // "…/campo": células de uma linha com ID; "…C2": de uma linha sem ID (alvo pelo número da linha)
+        subject.targets.some((t) => e.target === t || e.target.startsWith(`${t}/`) || e.target.startsWith(`${t}C`));
+    // Só o valor inteiro (não dentro de outra palavra: "Ana" não apaga parte de "Banana")
+    const patterns = values.map((v) => {
+        const escaped = v.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        return new RegExp(`(?<![\\p{L}\\d])${escaped}(?![\\p{L}\\d])`, 'giu');
+    });
+    const scrub = (text: string) => patterns.reduce((acc, re) => acc.replace(re, REDACTED), text);
+
+    const changed = await getAuditStore().rewrite((e) => {
+        const next: AuditEntry = isSubjects(e)
+            ? {
+                  ...e,
+                  channel_user: users.has(e.channel_user.trim().toLowerCase()) ? pseudonym : scrub(e.channel_user),
+                  old_value: e.old_value && REDACTED,
+                  new_value: e.new_value && REDACTED,
+                  user_message: e.user_message && REDACTED,
+              }
+            : {
+                  ...e,
+                  channel_user: scrub(e.channel_user),
+                  old_value: scrub(e.old_value),
+                  new_value: scrub(e.new_value),
+                  user_message: scrub(e.user_message),
+              };
+        return AUDIT_COLUMNS.some((c) => next[c] !== e[c]) ? next : null;
+    });
+    return { pseudonym, changed };
+}
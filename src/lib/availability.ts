@@ -0,0 +1,162 @@
+import { calendar } from '@/lib/google';
+import { DEFAULT_TZ, formatShortDate, formatTime, getZonedParts, zonedTimeToUtc } from '@/lib/dates';
+
+/**
+ * Cálculo de disponibilidade (janelas livres) a partir do Google Calendar.
+ *
+ * ENV opcionais:
+ * - WORK_START (ex.: "09:00")          → início do expediente
+ * - WORK_END (ex.: "18:00")            → fim do expediente
+ * - WORK_DAYS (ex.: "1,2,3,4,5")       → dias úteis (0 = domingo ... 6 = sábado)
+ * - MIN_FREE_SLOT_MINUTES (ex.: "30")  → duração mínima de uma janela livre
+ */
+
+export type TimeSlot = { start: Date; end: Date };
+
+export type WorkingHours = {
+    start: { hour: number; minute: number };
+    end: { hour: number; minute: number };
+    days: number[];
+};
+
+const MINUTE = 60 * 1000;
+
+function parseHourMinute(value: string | undefined, fallback: string) {
+    const [h, m] = (value || fallback).split(':').map(Number);
+    return { hour: h || 0, minute: m || 0 };
+}
+
+export const WORKING_HOURS: WorkingHours = {
+    start: parseHourMinute(process.env.WORK_START, '09:00'),
+    end: parseHourMinute(process.env.WORK_END, '18:00'),
+    days: (process.env.WORK_DAYS || '1,2,3,4,5').split(',').map((d) => Number(d.trim())),
+};
+
+export const MIN_FREE_SLOT_MINUTES = Number(process.env.MIN_FREE_SLOT_MINUTES || 30);
+
+/**
+ * Consulta os blocos ocupados de um calendário via API freebusy.
+ * @returns Lista de intervalos ocupados, na ordem devolvida pelo Google.
+ */
+export async function fetchBusyBlocks(params: {
+    calendarId: string;
+    timeMin: Date;
+    timeMax: Date;
+    timeZone?: string;
+}): Promise<TimeSlot[]> {
+    const res = await calendar.freebusy.query({
+        requestBody: {
+            timeMin: params.timeMin.toISOString(),
+            timeMax: params.timeMax.toISOString(),
+            timeZone: params.timeZone || DEFAULT_TZ,
+            items: [{ id: params.calendarId }],
+        },
+    });
+    const entry = res.data.calendars?.[params.calendarId];
+    if (entry?.errors?.length) {
+        // "notFound" → calendário não compartilhado com a Service Account
+        const reason = entry.errors[0]?.reason || 'unknown';
+        const err: any = new Error(`Freebusy falhou para o calendário (${reason}).`);
+        err.code = reason === 'notFound' ? 404 : 403;
+        throw err;
+    }
+    return (entry?.busy || [])
+        .filter((b) => b.start && b.end)
+        .map((b) => ({ start: new Date(b.start!), end: new Date(b.end!) }));
+}
+
+/** Ordena e une blocos sobrepostos/adjacentes. */
+function mergeSlots(slots: TimeSlot[]): TimeSlot[] {
+    const sorted = [...slots].sort((a, b) => a.start.getTime() - b.start.getTime());
+    const merged: TimeSlot[] = [];
+    for (const s of sorted) {
+        const last = merged[merged.length - 1];
+        if (last && s.start.getTime() <= last.end.getTime()) {
+            if (s.end.getTime() > last.end.getTime()) last.end = s.end;
+        } else {
+            merged.push({ start: s.start, end: s.end });
+        }
+    }
+    return merged;
+}
+
+/**
+ * Subtrai os blocos ocupados do expediente de cada dia no intervalo e devolve
+ * as janelas livres com pelo menos `minMinutes` de duração.
+ */
+export function computeFreeSlots(params: {
+    busy: TimeSlot[];
+    timeMin: Date;
+    timeMax: Date;
+    timeZone?: string;
+    workingHours?: WorkingHours;
+    minMinutes?: number;
+}): TimeSlot[] {
+    const timeZone = params.timeZone || DEFAULT_TZ;
+    const hours = params.workingHours || WORKING_HOURS;
+    const minMs = (params.minMinutes ?? MIN_FREE_SLOT_MINUTES) * MINUTE;
+    const busy = mergeSlots(params.busy);
+    const free: TimeSlot[] = [];
+
+    const first = getZonedParts(params.timeMin, timeZone);
+    for (let offset = 0; ; offset++) {
+        const day = { year: first.year, month: first.month, day: first.day + offset };
+        const dayStart = zonedTimeToUtc(day, timeZone);
+        if (dayStart.getTime() >= params.timeMax.getTime()) break;
+        if (!hours.days.includes(getZonedParts(dayStart, timeZone).weekday)) continue;
+
+        const workStart = zonedTimeToUtc({ ...day, ...hours.start }, timeZone);
+        const workEnd = zonedTimeToUtc({ ...day, ...hours.end }, timeZone);
+        let cursor = Math.max(workStart.getTime(), params.timeMin.getTime());
+        const limit = Math.min(workEnd.getTime(), params.timeMax.getTime());
+
+        for (const b of busy) {
+            if (cursor >= limit) break;
+            if (b.end.getTime() <= cursor || b.start.getTime() >= limit) continue;
+            if (b.start.getTime() - cursor >= minMs) free.push({ start: new Date(cursor), end: b.start });
+            cursor = Math.max(cursor, b.end.getTime());
+        }
+        if (limit - cursor >= minMs) free.push({ start: new Date(cursor), end: new Date(limit) });
+    }
+    return free;
+}
+
+/** Lista de janelas livres em markdown, agrupadas por dia. */
+export function formatFreeSlots(slots: TimeSlot[], timeZone: string = DEFAULT_TZ): string {
+    const byDay = new Map<string, string[]>();
+    for (const s of slots) {
+        const key = formatShortDate(s.start, timeZone);
+        const list = byDay.get(key) || [];
+        list.push(`${formatTime(s.start, timeZone)}–${formatTime(s.end, timeZone)}`);
+        byDay.set(key, list);
+    }
+    return Array.from(byDay.entries())
+        .map(([day, windows]) => `- **${day}**: ${windows.join(', ')}`)
+        .join('\n');
+}
+
+/**
+ * Sugere os `count` horários livres mais próximos de `around` com a mesma duração do pedido.
+ * Os candidatos avançam de `stepMinutes` em `stepMinutes` dentro de cada janela livre.
+ */
+export function suggestAlternativeSlots(params: {
+    freeSlots: TimeSlot[];
+    around: Date;
+    durationMinutes: number;
+    count?: number;
+    stepMinutes?: number;
+}): TimeSlot[] {
+    const durationMs = params.durationMinutes * MINUTE;
+    const stepMs = (params.stepMinutes ?? 30) * MINUTE;
+    const target = params.around.getTime();
+    const candidates: TimeSlot[] = [];
+    for (const w of params.freeSlots) {
+        for (let t = w.start.getTime(); t + durationMs <= w.end.getTime(); t += stepMs) {
+            candidates.push({ start: new Date(t), end: new Date(t + durationMs) });
+        }
+    }
+    return candidates
+        .sort((a, b) => Math.abs(a.start.getTime() - target) - Math.abs(b.start.getTime() - target))
+        .slice(0, params.count ?? 3)
+        .sort((a, b) => a.start.getTime() - b.start.getTime());
+}
@@ -0,0 +1,52 @@
+import { calendar } from '@/lib/google';
+import { normalizePhone } from '@/lib/fieldValidation';
+
+/**
+ * Marcação dos eventos criados pelo bot no Google Calendar.
+ *
+ * Todo evento inserido pelo editData leva `extendedProperties.private`:
+ *   { created_by: "moveo-bot", bot_owner: "<e-mail ou telefone do usuário>" }
+ * Assim é possível listar (exportação LGPD) e remover (exclusão LGPD) só o que o bot criou,
+ * sem tocar em eventos criados pelo próprio usuário.
+ */
+
+export const BOT_EVENT_TAG = 'moveo-bot';
+
+/** Identificador do dono dos eventos: e-mail (minúsculo) ou telefone canônico. */
+export function botOwnerKey(identity: { email?: string; phone?: string }): string {
+    if (identity.email) return identity.email.trim().toLowerCase();
+    if (identity.phone) return normalizePhone(identity.phone) || identity.phone;
+    return '';
+}
+
+/** Valor de `extendedProperties` para um evento criado pelo bot. */
+export function botEventProperties(owner: string) {
+    return { private: { created_by: BOT_EVENT_TAG, ...(owner ? { bot_owner: owner } : {}) } };
+}
+
+/**
+ * Eventos criados pelo bot para o usuário (séries aparecem uma vez, pelo evento mestre): só os que têm
+ * `bot_owner` entre `owners`, em qualquer calendário — um calendário pode ser compartilhado entre
+ * usuários, e a marcação `created_by` sozinha não diz de quem é o evento. Sem `owners`, lista vazia.
+ */
+export async function listBotEvents(params: { calendarId?: string; owners: string[] }) {
+    const calendarId = params.calendarId || 'primary';
+    const owners = params.owners.filter(Boolean);
+    if (!owners.length) return [];
+    const items = [];
+    let pageToken: string | undefined;
+    do {
+        const res = await calendar.events.list({
+            calendarId,
+            privateExtendedProperty: [`created_by=${BOT_EVENT_TAG}`],
+            singleEvents: false,
+            showDeleted: false,
+            maxResults: 250,
+            pageToken,
+        });
+        items.push(...(res.data.items || []));
+        pageToken = res.data.nextPageToken || undefined;
+    } while (pageToken);
+
+    return items.filter((ev) => owners.includes(ev.extendedProperties?.private?.bot_owner || ''));
+}
@@ -0,0 +1,127 @@
+import { buildPlainConversation, type MoveoMessage } from '@/lib/moveo';
+import { formatShortDateTime } from '@/lib/dates';
+
+/**
+ * Janela da conversa enviada à IA pelo editData.
+ *
+ * Em vez do histórico inteiro, vão só os turnos desde a última ação concluída, dentro de um orçamento
+ * de tokens, precedidos de um resumo compacto do que veio antes — com os pedidos já atendidos marcados,
+ * para que o modelo não os execute de novo.
+ *
+ * O estado vive nas variáveis de sessão devolvidas à Moveo (não depende de memória do processo):
+ * - edit_last_done_at → horário (ISO) da mensagem que gerou a última ação concluída
+ * - edit_fulfilled    → JSON com os últimos pedidos atendidos ({ at, request, result })
+ *
+ * ENV opcionais:
+ * - CONVERSATION_TOKEN_BUDGET (padrão 1500) → tokens (estimados) para os turnos recentes
+ */
+
+const CONVERSATION_TOKEN_BUDGET = Number(process.env.CONVERSATION_TOKEN_BUDGET || 1500);
+
+// Quantos pedidos atendidos guardamos na sessão, e quantas mensagens antigas entram no resumo
+const MAX_FULFILLED = 5;
+const MAX_EARLIER_MESSAGES = 3;
+const SUMMARY_TEXT_CHARS = 120;
+
+export type FulfilledRequest = {
+    at: string; // ISO
+    request: string; // o que o usuário pediu
+    result: string; // o que foi feito
+};
+
+/** Estimativa grosseira (~4 caracteres por token em português), suficiente para o orçamento. */
+function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+function shorten(text: string, max = SUMMARY_TEXT_CHARS): string {
+    const oneLine = text.replace(/\s+/g, ' ').trim();
+    return oneLine.length > max ? `${oneLine.slice(0, max - 1)}…` : oneLine;
+}
+
+function timeOf(m: MoveoMessage): number {
+    return m.time ? Date.parse(m.time) : NaN;
+}
+
+/** Lista de pedidos atendidos guardada na sessão (inválida/ausente → vazia). */
+export function parseFulfilled(value: unknown): FulfilledRequest[] {
+    if (typeof value !== 'string' || !value) return [];
+    try {
+        const parsed = JSON.parse(value);
+        return Array.isArray(parsed) ? parsed.filter((f) => f && typeof f.request === 'string') : [];
+    } catch {
+        return [];
+    }
+}
+
+/** Acrescenta um pedido atendido, mantendo só os MAX_FULFILLED mais recentes. */
+export function rememberFulfilled(previous: FulfilledRequest[], entry: FulfilledRequest): FulfilledRequest[] {
+    return [
+        ...previous,
+        { at: entry.at, request: shorten(entry.request), result: shorten(entry.result) },
+    ].slice(-MAX_FULFILLED);
+}
+
+function buildSummary(earlier: MoveoMessage[], fulfilled: FulfilledRequest[]): string {
+    if (!earlier.length && !fulfilled.length) return '';
+    const lines = ['[Resumo do contexto anterior — apenas contexto, não são pedidos novos]'];
+
+    if (earlier.length) {
+        const first = earlier.find((m) => !isNaN(timeOf(m)));
+        const since = first ? ` desde ${formatShortDateTime(new Date(timeOf(first)))}` : '';
+        lines.push(`- ${earlier.length} mensagem(ns) anteriores${since}.`);
+    }
+    if (fulfilled.length) {
+        lines.push('- Pedidos JÁ ATENDIDOS (não executar de novo):');
+        for (const f of fulfilled) lines.push(`  • "${f.request}" → ${f.result}`);
+    }
+
+    // Últimas falas do usuário antes da janela que não correspondem a pedidos já atendidos
+    const done = new Set(fulfilled.map((f) => f.request.toLowerCase()));
+    const userLines = earlier
+        .filter((m) => m.event === 'message:received')
+        .map((m) => shorten(m.message?.text || ''))
+        .filter((text) => text && !done.has(text.toLowerCase()))
+        .slice(-MAX_EARLIER_MESSAGES);
+    if (userLines.length) lines.push(`- Antes, o usuário também disse: ${userLines.map((t) => `"${t}"`).join('; ')}.`);
+
+    return lines.join('\n');
+}
+
+/**
+ * Monta a conversa para a IA: resumo do contexto anterior + turnos desde a última ação concluída,
+ * do fim para o começo, até o orçamento de tokens (a última mensagem sempre entra).
+ * @param options.since horário da última ação concluída (edit_last_done_at); sem ele, todo o histórico é candidato.
+ * @param options.fulfilled pedidos já atendidos (edit_fulfilled).
+ */
+export function buildConversationWindow(
+    messages: MoveoMessage[],
+    options: { since?: string; fulfilled?: FulfilledRequest[]; maxTokens?: number } = {}
+): string {
+    const maxTokens = options.maxTokens ?? CONVERSATION_TOKEN_BUDGET;
+    const since = options.since ? Date.parse(options.since) : NaN;
+
+    // Mensagens sem horário ficam do lado "recente" (não dá para saber se já foram tratadas)
+    const splitAt = isNaN(since) ? 0 : messages.findIndex((m) => !(timeOf(m) <= since));
+    const cut = splitAt < 0 ? messages.length : splitAt;
+    const earlier = messages.slice(0, cut);
+    const recent = messages.slice(cut);
+
+    const kept: MoveoMessage[] = [];
+    let used = 0;
+    for (let i = recent.length - 1; i >= 0; i--) {
+        const line = buildPlainConversation([recent[i]]);
+        if (!line) continue;
+        const cost = estimateTokens(line);
+        if (kept.length && used + cost > maxTokens) {
+            earlier.push(...recent.slice(0, i + 1)); // o que não coube vai para o resumo
+            break;
+        }
+        kept.unshift(recent[i]);
+        used += cost;
+    }
+
+    const summary = buildSummary(earlier, options.fulfilled ?? []);
+    const window = buildPlainConversation(kept);
+    return [summary, window].filter(Boolean).join('\n');
+}
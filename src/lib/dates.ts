@@ -0,0 +1,321 @@
+/**
+ * Utilitários de data/hora com fuso horário (IANA) e um parser simples de
+ * expressões relativas em português ("hoje", "amanhã", "quarta 14h", "dia 25/10"...).
+ *
+ * Não usa bibliotecas externas: os cálculos de fuso são feitos com `Intl.DateTimeFormat`.
+ */
+
+export const DEFAULT_TZ = process.env.DEFAULT_TZ || 'America/Sao_Paulo';
+
+/** Duração padrão (min) quando o usuário informa só o horário de início (ENV DEFAULT_EVENT_MINUTES). */
+export const DEFAULT_SLOT_MINUTES = Number(process.env.DEFAULT_EVENT_MINUTES || 60);
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+export type ZonedParts = {
+    year: number;
+    month: number; // 1-12
+    day: number;
+    hour: number;
+    minute: number;
+    second: number;
+    weekday: number; // 0 = domingo ... 6 = sábado
+};
+
+export type DateRange = {
+    timeMin: Date;
+    timeMax: Date;
+    label: string; // descrição legível do intervalo (ex.: "amanhã, 20/10 14:00–15:00")
+    hasTime: boolean; // true quando o usuário citou um horário específico
+};
+
+const WEEKDAY_SHORT: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+const WEEKDAY_NAMES: Array<{ re: RegExp; day: number }> = [
+    { re: /\bdomingo\b/, day: 0 },
+    { re: /\bsegunda(-feira)?\b/, day: 1 },
+    { re: /\bterca(-feira)?\b/, day: 2 },
+    { re: /\bquarta(-feira)?\b/, day: 3 },
+    { re: /\bquinta(-feira)?\b/, day: 4 },
+    { re: /\bsexta(-feira)?\b/, day: 5 },
+    { re: /\bsabado\b/, day: 6 },
+];
+
+export const WEEKDAY_LABELS = ['domingo', 'segunda-feira', 'terça-feira', 'quarta-feira', 'quinta-feira', 'sexta-feira', 'sábado'];
+
+//
+// ================ Fuso horário ================
+//
+
+/** Decompõe um instante nas partes de calendário do fuso informado. */
+export function getZonedParts(date: Date, timeZone: string = DEFAULT_TZ): ZonedParts {
+    const fmt = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit',
+        weekday: 'short',
+    });
+    const parts: Record<string, string> = {};
+    for (const p of fmt.formatToParts(date)) parts[p.type] = p.value;
+    return {
+        year: Number(parts.year),
+        month: Number(parts.month),
+        day: Number(parts.day),
+        hour: Number(parts.hour),
+        minute: Number(parts.minute),
+        second: Number(parts.second),
+        weekday: WEEKDAY_SHORT[parts.weekday] ?? 0,
+    };
+}
+
+/** Diferença (ms) entre o horário local do fuso e o UTC naquele instante. */
+function getTimeZoneOffset(date: Date, timeZone: string): number {
+    const p = getZonedParts(date, timeZone);
+    const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+    return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Converte um horário "de parede" (ano/mês/dia/hora no fuso informado) para o instante UTC.
+ * Dias/meses fora do intervalo são normalizados (ex.: dia 32 vira o dia 1 do mês seguinte).
+ */
+export function zonedTimeToUtc(
+    local: { year: number; month: number; day: number; hour?: number; minute?: number },
+    timeZone: string = DEFAULT_TZ
+): Date {
+    const guess = Date.UTC(local.year, local.month - 1, local.day, local.hour ?? 0, local.minute ?? 0);
+    const first = guess - getTimeZoneOffset(new Date(guess), timeZone);
+    // Segunda passada corrige o caso em que o palpite cai do outro lado de uma troca de horário de verão.
+    const second = guess - getTimeZoneOffset(new Date(first), timeZone);
+    return new Date(second);
+}
+
+/** Formata um instante como ISO 8601 com o offset do fuso (ex.: 2025-10-20T14:00:00-03:00). */
+export function formatZonedIso(date: Date, timeZone: string = DEFAULT_TZ): string {
+    const p = getZonedParts(date, timeZone);
+    const offsetMin = Math.round(getTimeZoneOffset(date, timeZone) / MINUTE);
+    const sign = offsetMin >= 0 ? '+' : '-';
+    const abs = Math.abs(offsetMin);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return (
+        `${p.year}-${pad(p.month)}-${pad(p.day)}T${pad(p.hour)}:${pad(p.minute)}:${pad(p.second)}` +
+        `${sign}${pad(Math.floor(abs / 60))}:${pad(abs % 60)}`
+    );
+}
+
+/**
+ * Converte uma data/hora ISO em `Date`. Se a string não tiver offset/"Z"
+ * (ex.: "2025-10-20T14:00:00"), ela é interpretada no fuso informado, e não no fuso do servidor.
+ */
+export function parseZonedDateTime(value: string, timeZone: string = DEFAULT_TZ): Date {
+    const m = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?)?$/);
+    if (!m) return new Date(value);
+    return zonedTimeToUtc(
+        { year: Number(m[1]), month: Number(m[2]), day: Number(m[3]), hour: Number(m[4] || 0), minute: Number(m[5] || 0) },
+        timeZone
+    );
+}
+
+/**
+ * Reescreve uma data/hora ISO com o offset do fuso ("2025-10-20T10:00" → "2025-10-20T10:00:00-03:00").
+ * Sem offset, o horário é lido no fuso informado; com offset/"Z", o instante é mantido.
+ * Valores que não são datas voltam como vieram.
+ */
+export function resolveZonedIso(value: string, timeZone: string = DEFAULT_TZ): string {
+    const date = parseZonedDateTime(value, timeZone);
+    return isNaN(date.getTime()) ? value : formatZonedIso(date, timeZone);
+}
+
+/** Fim padrão de um evento que só tem início: `start` + DEFAULT_SLOT_MINUTES, no mesmo fuso. */
+export function defaultEventEnd(start: string, timeZone: string = DEFAULT_TZ): string {
+    const date = parseZonedDateTime(start, timeZone);
+    return formatZonedIso(new Date(date.getTime() + DEFAULT_SLOT_MINUTES * MINUTE), timeZone);
+}
+
+/** "20/10 14:00" no fuso informado. */
+export function formatShortDateTime(date: Date, timeZone: string = DEFAULT_TZ): string {
+    return date.toLocaleString('pt-BR', {
+        timeZone,
+        day: '2-digit',
+        month: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+    });
+}
+
+/** "14:00" no fuso informado. */
+export function formatTime(date: Date, timeZone: string = DEFAULT_TZ): string {
+    return date.toLocaleTimeString('pt-BR', { timeZone, hour: '2-digit', minute: '2-digit' });
+}
+
+/** "ter, 20/10" no fuso informado. */
+export function formatShortDate(date: Date, timeZone: string = DEFAULT_TZ): string {
+    const weekday = date.toLocaleDateString('pt-BR', { timeZone, weekday: 'short' }).replace('.', '');
+    const dayMonth = date.toLocaleDateString('pt-BR', { timeZone, day: '2-digit', month: '2-digit' });
+    return `${weekday}, ${dayMonth}`;
+}
+
+//
+// ================ Parser de datas relativas (pt-BR) ================
+//
+
+function normalizeText(text: string): string {
+    return text
+        .toLowerCase()
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '');
+}
+
+/** Extrai um horário como "14h", "14h30", "14:30", "às 9", "14 horas". */
+function extractTime(text: string): { hour: number; minute: number } | null {
+    const patterns = [
+        /\b(\d{1,2})\s*(?:h|:)\s*(\d{2})\b/, // 14h30, 14:30
+        /\b(\d{1,2})\s*(?:h|hs|horas?)\b/, // 14h, 14 horas
+        /\bas\s+(\d{1,2})\b(?!\s*\/)/, // às 9
+    ];
+    for (const re of patterns) {
+        const m = text.match(re);
+        if (!m) continue;
+        const hour = Number(m[1]);
+        const minute = m[2] ? Number(m[2]) : 0;
+        if (hour <= 23 && minute <= 59) return { hour, minute };
+    }
+    return null;
+}
+
+type LocalDay = { year: number; month: number; day: number };
+
+/** Soma dias a uma data "de parede" usando aritmética UTC (sem efeito de fuso). */
+function addDays(d: LocalDay, days: number): LocalDay {
+    const t = new Date(Date.UTC(d.year, d.month - 1, d.day) + days * DAY);
+    return { year: t.getUTCFullYear(), month: t.getUTCMonth() + 1, day: t.getUTCDate() };
+}
+
+function startOf(d: LocalDay, timeZone: string, hour = 0, minute = 0): Date {
+    return zonedTimeToUtc({ ...d, hour, minute }, timeZone);
+}
+
+function dayLabel(d: LocalDay): string {
+    return `${String(d.day).padStart(2, '0')}/${String(d.month).padStart(2, '0')}`;
+}
+
+/**
+ * Interpreta expressões de data em português e devolve o intervalo correspondente no fuso do usuário.
+ * Reconhece: "hoje", "amanhã", "depois de amanhã", "esta semana", "semana que vem"/"próxima semana",
+ * dias da semana ("quarta", "sexta-feira"), datas ("dia 25/10", "25/10/2025", "dia 25") e horários ("14h", "14:30").
+ *
+ * Quando há horário, o intervalo cobre `slotMinutes` a partir dele; caso contrário, o(s) dia(s) inteiro(s).
+ * @returns O intervalo encontrado ou `null` quando o texto não menciona nenhuma data/horário.
+ */
+export function parseDateRange(
+    text: string,
+    opts: { timeZone?: string; now?: Date; slotMinutes?: number } = {}
+): DateRange | null {
+    const timeZone = opts.timeZone || DEFAULT_TZ;
+    const now = opts.now || new Date();
+    const slotMinutes = opts.slotMinutes ?? DEFAULT_SLOT_MINUTES;
+    const t = normalizeText(text || '');
+    const nowParts = getZonedParts(now, timeZone);
+    const today: LocalDay = { year: nowParts.year, month: nowParts.month, day: nowParts.day };
+
+    let day: LocalDay | null = null;
+    let label = '';
+
+    // Intervalos de vários dias (não combinam com horário)
+    if (/\b(semana que vem|proxima semana)\b/.test(t)) {
+        const daysToMonday = ((8 - nowParts.weekday) % 7) || 7;
+        const monday = addDays(today, daysToMonday);
+        const nextMonday = addDays(monday, 7);
+        return {
+            timeMin: startOf(monday, timeZone),
+            timeMax: startOf(nextMonday, timeZone),
+            label: `semana que vem (${dayLabel(monday)} a ${dayLabel(addDays(monday, 6))})`,
+            hasTime: false,
+        };
+    }
+    if (/\b(esta|essa|nesta|nessa) semana\b/.test(t)) {
+        const daysToMonday = ((8 - nowParts.weekday) % 7) || 7;
+        const nextMonday = addDays(today, daysToMonday);
+        return {
+            timeMin: now,
+            timeMax: startOf(nextMonday, timeZone),
+            label: `esta semana (até ${dayLabel(addDays(nextMonday, -1))})`,
+            hasTime: false,
+        };
+    }
+
+    // Dia único
+    const explicitDate = t.match(/\b(?:dia\s+)?(\d{1,2})\/(\d{1,2})(?:\/(\d{2,4}))?\b/);
+    const dayOnly = t.match(/\bdia\s+(\d{1,2})\b(?!\s*\/)/);
+    if (/\bdepois de amanha\b/.test(t)) {
+        day = addDays(today, 2);
+        label = 'depois de amanhã';
+    } else if (/\bamanha\b/.test(t)) {
+        day = addDays(today, 1);
+        label = 'amanhã';
+    } else if (/\bhoje\b/.test(t)) {
+        day = today;
+        label = 'hoje';
+    } else if (explicitDate) {
+        const d = Number(explicitDate[1]);
+        const m = Number(explicitDate[2]);
+        let y = explicitDate[3] ? Number(explicitDate[3]) : today.year;
+        if (y < 100) y += 2000;
+        if (d >= 1 && d <= 31 && m >= 1 && m <= 12) {
+            day = { year: y, month: m, day: d };
+            // Sem ano explícito e data já passada → assume o próximo ano
+            if (!explicitDate[3] && Date.UTC(y, m - 1, d) < Date.UTC(today.year, today.month - 1, today.day)) {
+                day = { year: y + 1, month: m, day: d };
+            }
+        }
+    } else if (dayOnly) {
+        const d = Number(dayOnly[1]);
+        if (d >= 1 && d <= 31) {
+            day = { year: today.year, month: today.month, day: d };
+            if (d < today.day) day = addDays({ year: today.year, month: today.month + 1, day: 0 }, d); // próximo mês
+        }
+    } else {
+        const wd = WEEKDAY_NAMES.find((w) => w.re.test(t));
+        if (wd) {
+            const diff = (wd.day - nowParts.weekday + 7) % 7;
+            day = addDays(today, diff);
+            label = WEEKDAY_LABELS[wd.day];
+        }
+    }
+
+    const time = extractTime(t);
+    if (!day && !time) return null;
+    if (!day) {
+        // Só horário: hoje, ou amanhã se o horário já passou
+        day = today;
+        label = 'hoje';
+        if (time && (time.hour < nowParts.hour || (time.hour === nowParts.hour && time.minute <= nowParts.minute))) {
+            day = addDays(today, 1);
+            label = 'amanhã';
+        }
+    }
+
+    const dateText = label ? `${label}, ${dayLabel(day)}` : dayLabel(day);
+    if (time) {
+        const timeMin = startOf(day, timeZone, time.hour, time.minute);
+        const timeMax = new Date(timeMin.getTime() + slotMinutes * MINUTE);
+        return {
+            timeMin,
+            timeMax,
+            label: `${dateText} ${formatTime(timeMin, timeZone)}–${formatTime(timeMax, timeZone)}`,
+            hasTime: true,
+        };
+    }
+    return {
+        timeMin: startOf(day, timeZone),
+        timeMax: startOf(addDays(day, 1), timeZone),
+        label: dateText,
+        hasTime: false,
+    };
+}
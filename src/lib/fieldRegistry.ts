@@ -0,0 +1,170 @@
+import { readFileSync } from 'fs';
+import { validateField, type FieldCheck, type FieldKind } from '@/lib/fieldValidation';
+
+/**
+ * Registro declarativo das colunas da planilha de usuários (colunas ausentes na planilha são ignoradas).
+ *
+ * Cada coluna define cabeçalho, aliases, tipo (→ validador), se o usuário pode editá-la pelo chat
+ * e se contém dado pessoal (PII). O registro alimenta:
+ * - a localização de colunas (cabeçalho/aliases, sem diferenciar maiúsculas/acentos);
+ * - a validação antes de gravar (ver '@/lib/fieldValidation');
+ * - o prompt do `getEditInstruction` (só campos editáveis são oferecidos à IA);
+ * - o autocadastro (`register_user`): campos com `required` precisam ser informados; campos `system`
+ *   (ex.: o ID) são preenchidos pelo servidor e nunca aceitos do usuário.
+ *
+ * ENV opcionais:
+ * - FIELD_REGISTRY_PATH → arquivo JSON com a lista de campos (substitui o padrão abaixo;
+ *   mesmo formato de FieldDefinition, sem `validate`)
+ */
+
+export type FieldType = 'text' | FieldKind;
+
+export type FieldDefinition = {
+    key: string; // nome canônico (usado pela IA em update_sheet_field.field)
+    header: string; // cabeçalho na planilha
+    aliases: string[]; // outros nomes aceitos (cabeçalhos alternativos, sinônimos)
+    type: FieldType;
+    editable: boolean; // o usuário pode alterar pelo chat?
+    required?: boolean; // obrigatório no autocadastro (register_user)
+    pii: boolean; // dado pessoal (LGPD)
+    system?: boolean; // preenchido pelo servidor (ex.: ID): fora do prompt e do autocadastro
+    sessionKey?: string; // variável de sessão espelhada (ex.: user_email)
+    description?: string; // explicação curta para o prompt
+    validate?: (value: string) => FieldCheck; // sobrepõe o validador do tipo
+};
+
+const DEFAULT_FIELDS: FieldDefinition[] = [
+    {
+        // Identificador estável da linha (opcional na planilha): confere a linha antes de gravar
+        key: 'id',
+        header: 'ID',
+        aliases: ['user_id', 'id_usuario'],
+        type: 'text',
+        editable: false,
+        pii: false,
+        system: true,
+    },
+    {
+        key: 'nome',
+        header: 'Nome',
+        aliases: ['name', 'user_name', 'full_name', 'nome_completo'],
+        type: 'name',
+        editable: true,
+        required: true,
+        pii: true,
+        sessionKey: 'user_name',
+        description: 'nome completo do usuário',
+    },
+    {
+        key: 'telefone',
+        header: 'Telefone',
+        aliases: ['phone', 'celular', 'mobile', 'whatsapp', 'user_phone', 'telefone_do_usuario'],
+        type: 'phone',
+        editable: true,
+        required: true,
+        pii: true,
+        sessionKey: 'user_phone',
+        description: 'telefone com DDD',
+    },
+    {
+        key: 'email',
+        header: 'Email',
+        aliases: ['e-mail', 'mail', 'user_email'],
+        type: 'email',
+        editable: true,
+        required: true,
+        pii: true,
+        sessionKey: 'user_email',
+        description: 'e-mail de contato (também usado para a agenda)',
+    },
+    {
+        key: 'cpf',
+        header: 'CPF',
+        aliases: ['documento', 'user_cpf'],
+        type: 'cpf',
+        editable: false,
+        pii: true,
+        sessionKey: 'user_cpf',
+    },
+];
+
+function loadRegistry(): FieldDefinition[] {
+    const path = process.env.FIELD_REGISTRY_PATH;
+    if (!path) return DEFAULT_FIELDS;
+    try {
+        const parsed = JSON.parse(readFileSync(path, 'utf8'));
+        if (!Array.isArray(parsed)) throw new Error('o arquivo deve conter uma lista de campos');
+        return parsed.map((f: any) => ({
+            key: String(f.key),
+            header: String(f.header || f.key),
+            aliases: Array.isArray(f.aliases) ? f.aliases.map(String) : [],
+            type: ['phone', 'email', 'name', 'cpf'].includes(f.type) ? f.type : 'text',
+            editable: f.editable === true,
+            required: f.required === true,
+            pii: f.pii === true,
+            system: f.system === true || String(f.key) === 'id', // o ID da linha é sempre gerado pelo servidor
+            sessionKey: f.sessionKey || undefined,
+            description: f.description || undefined,
+        }));
+    } catch (err: any) {
+        console.error(`✗ FIELD_REGISTRY_PATH inválido (${path}): ${err?.message}. Usando o registro padrão.`);
+        return DEFAULT_FIELDS;
+    }
+}
+
+export const FIELD_REGISTRY: FieldDefinition[] = loadRegistry();
+
+/** Normaliza nomes de campo/cabeçalho para comparação ("E-mail " → "e_mail"). */
+export function normalizeFieldName(value: unknown): string {
+    return String(value ?? '')
+        .trim()
+        .toLowerCase()
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/[\s-]+/g, '_');
+}
+
+function namesOf(field: FieldDefinition): string[] {
+    return [field.key, field.header, ...field.aliases].map(normalizeFieldName);
+}
+
+/** Campo do registro pelo nome canônico, cabeçalho ou alias (null se não registrado). */
+export function getFieldDefinition(name: string): FieldDefinition | null {
+    const wanted = normalizeFieldName(name);
+    if (!wanted) return null;
+    return FIELD_REGISTRY.find((f) => namesOf(f).includes(wanted)) || null;
+}
+
+/** Índice (0-based) da coluna do campo na linha de cabeçalhos, ou -1. */
+export function findFieldColumn(headerRow: unknown[], field: FieldDefinition): number {
+    const headers = headerRow.map(normalizeFieldName);
+    for (const name of namesOf(field)) {
+        const idx = headers.indexOf(name);
+        if (idx >= 0) return idx;
+    }
+    return -1;
+}
+
+/** Valida/normaliza um valor conforme o campo (validador próprio ou o do tipo). */
+export function checkFieldValue(field: FieldDefinition, value: string): FieldCheck {
+    if (field.validate) return field.validate(value);
+    if (field.type !== 'text') return validateField(field.type, value);
+    const trimmed = value.trim();
+    return trimmed
+        ? { ok: true, value: trimmed }
+        : { ok: false, message: `O valor para "${field.header}" veio vazio. Qual valor devo usar?` };
+}
+
+/** Lista dos campos aceitos no autocadastro para o prompt da IA (obrigatórios marcados). */
+export function describeRegistrationFields(): string {
+    return FIELD_REGISTRY.filter((f) => !f.system).map(
+        (f) => `- "${f.key}"${f.description ? `: ${f.description}` : ''}${f.required ? ' (obrigatório)' : ''}`
+    ).join('\n');
+}
+
+/** Lista dos campos editáveis para o prompt da IA (uma linha por campo). */
+export function describeEditableFields(): string {
+    return FIELD_REGISTRY.filter((f) => f.editable)
+        .map((f) => `- "${f.key}"${f.description ? `: ${f.description}` : ''}`)
+        .join('\n');
+}
@@ -0,0 +1,117 @@
+/**
+ * Validação e normalização de campos antes de gravar na planilha.
+ *
+ * - Telefone: formato canônico E.164 brasileiro (+55 DDD número), com a regra do 9º dígito
+ *   para celulares informados com 8 dígitos.
+ * - E-mail: sintaxe básica + minúsculas.
+ * - Nome: espaços aparados, pontuação solta removida e iniciais maiúsculas
+ *   (partículas "da", "de", "do"... ficam minúsculas).
+ * - CPF: dígitos verificadores conferidos, formato 000.000.000-00.
+ *
+ * Um valor inválido não é gravado: a rota devolve `message` pedindo a correção ao usuário.
+ */
+
+export type FieldKind = 'phone' | 'email' | 'name' | 'cpf';
+
+export type FieldCheck = { ok: true; value: string } | { ok: false; message: string };
+
+const NAME_PARTICLES = new Set(['da', 'das', 'de', 'do', 'dos', 'e', 'di', 'du', 'van', 'von']);
+
+function onlyDigits(value: string): string {
+    return value.replace(/\D/g, '');
+}
+
+/**
+ * Normaliza um telefone brasileiro para E.164 (ex.: "(11) 8765-4321" → "+5511987654321").
+ * @returns null quando não dá para formar um número válido (sem DDD, dígitos a mais/menos...).
+ */
+export function normalizePhone(raw: string): string | null {
+    let digits = onlyDigits(raw);
+    if (digits.startsWith('00')) digits = digits.slice(2); // discagem internacional (0055...)
+    if (digits.length > 11 && digits.startsWith('55')) digits = digits.slice(2);
+    if (digits.length === 11 && digits.startsWith('0')) digits = digits.slice(1); // 0 + DDD + 8 dígitos
+    if (digits.length === 12 && digits.startsWith('0')) digits = digits.slice(1); // 0 + DDD + 9 dígitos
+
+    if (digits.length !== 10 && digits.length !== 11) return null;
+    const ddd = Number(digits.slice(0, 2));
+    if (ddd < 11 || ddd > 99 || ddd % 10 === 0) return null;
+
+    let number = digits.slice(2);
+    // Celular antigo (8 dígitos começando com 6–9) → acrescenta o 9º dígito
+    if (number.length === 8 && /^[6-9]/.test(number)) number = `9${number}`;
+    if (number.length === 9 && !number.startsWith('9')) return null;
+    if (number.length === 8 && !/^[2-5]/.test(number)) return null;
+    return `+55${digits.slice(0, 2)}${number}`;
+}
+
+export function normalizeEmail(raw: string): string | null {
+    const email = raw.trim().toLowerCase().replace(/^mailto:/, '');
+    if (!/^[a-z0-9._%+-]+@[a-z0-9-]+(\.[a-z0-9-]+)*\.[a-z]{2,}$/.test(email)) return null;
+    if (email.includes('..') || email.startsWith('.') || email.split('@')[0].endsWith('.')) return null;
+    return email;
+}
+
+export function normalizeName(raw: string): string | null {
+    const cleaned = raw
+        .replace(/[^\p{L}\s'-]/gu, ' ')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .replace(/^[-']+|[-']+$/g, '');
+    if (cleaned.replace(/[\s'-]/g, '').length < 2) return null;
+    return cleaned
+        .toLowerCase()
+        .split(' ')
+        .map((word, i) =>
+            i > 0 && NAME_PARTICLES.has(word)
+                ? word
+                : word.replace(/(^|[-'])(\p{L})/gu, (_, sep: string, ch: string) => sep + ch.toUpperCase())
+        )
+        .join(' ');
+}
+
+/** Normaliza um CPF para 000.000.000-00, conferindo os dígitos verificadores. */
+export function normalizeCpf(raw: string): string | null {
+    const digits = onlyDigits(raw);
+    if (digits.length !== 11 || /^(\d)\1{10}$/.test(digits)) return null;
+    const checkDigit = (length: number) => {
+        let sum = 0;
+        for (let i = 0; i < length; i++) sum += Number(digits[i]) * (length + 1 - i);
+        const rest = (sum * 10) % 11;
+        return rest === 10 ? 0 : rest;
+    };
+    if (checkDigit(9) !== Number(digits[9]) || checkDigit(10) !== Number(digits[10])) return null;
+    return `${digits.slice(0, 3)}.${digits.slice(3, 6)}.${digits.slice(6, 9)}-${digits.slice(9)}`;
+}
+
+/** Valida e normaliza `value` conforme o tipo do campo; a mensagem de erro já é a pergunta ao usuário. */
+export function validateField(kind: FieldKind, value: string): FieldCheck {
+    switch (kind) {
+        case 'phone': {
+            const phone = normalizePhone(value);
+            return phone
+                ? { ok: true, value: phone }
+                : {
+                      ok: false,
+                      message: `Não consegui entender o telefone "${value}". Pode me mandar com DDD? Ex.: (11) 98765-4321.`,
+                  };
+        }
+        case 'email': {
+            const email = normalizeEmail(value);
+            return email
+                ? { ok: true, value: email }
+                : { ok: false, message: `"${value}" não parece um e-mail válido. Pode conferir e me mandar de novo? Ex.: nome@empresa.com.` };
+        }
+        case 'name': {
+            const name = normalizeName(value);
+            return name
+                ? { ok: true, value: name }
+                : { ok: false, message: `Não consegui entender o nome "${value}". Pode me mandar o nome completo, só com letras?` };
+        }
+        case 'cpf': {
+            const cpf = normalizeCpf(value);
+            return cpf
+                ? { ok: true, value: cpf }
+                : { ok: false, message: `O CPF "${value}" não parece válido. Pode conferir os 11 dígitos?` };
+        }
+    }
+}
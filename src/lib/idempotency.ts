@@ -0,0 +1,53 @@
+/**
+ * Idempotência dos webhooks por `session_id + last_user_message_id`.
+ *
+ * A Moveo pode reenviar o mesmo webhook (retry por timeout, entrega duplicada). A primeira execução
+ * de uma chave é guardada; as repetições — inclusive as que chegam enquanto a primeira ainda roda —
+ * recebem o mesmo resultado, sem reaplicar a edição nem criar o evento de novo.
+ *
+ * Falhas não ficam guardadas: exceções e resultados recusados por `options.keep` (ex.: turno em que
+ * todas as ações falharam) são descartados, e uma nova tentativa roda normalmente.
+ * Obs.: armazenamento em memória, por processo (mesma limitação de '@/lib/pendingActions').
+ *
+ * ENV opcionais:
+ * - IDEMPOTENCY_TTL_SECONDS (ex.: "600") → por quanto tempo um resultado é reaproveitado
+ */
+
+const IDEMPOTENCY_TTL_MS = Number(process.env.IDEMPOTENCY_TTL_SECONDS || 600) * 1000;
+
+const results = new Map<string, { promise: Promise<unknown>; expiresAt: number }>();
+
+function purgeExpired(now: number) {
+    for (const [key, entry] of results) {
+        if (entry.expiresAt < now) results.delete(key);
+    }
+}
+
+/**
+ * Executa `fn` uma única vez por `key` dentro do TTL.
+ * @param options.keep decide se o resultado pode ser reaproveitado (padrão: sempre). Repetições que chegam
+ *                     enquanto a execução roda recebem o mesmo resultado, mesmo que ele não seja guardado.
+ * @returns o resultado e se ele veio de uma execução anterior (`replayed`).
+ */
+export async function runOnce<T>(
+    key: string,
+    fn: () => Promise<T>,
+    options: { keep?: (value: T) => boolean } = {}
+): Promise<{ value: T; replayed: boolean }> {
+    const now = Date.now();
+    purgeExpired(now);
+
+    const existing = results.get(key);
+    if (existing) return { value: (await existing.promise) as T, replayed: true };
+
+    const promise = fn();
+    results.set(key, { promise, expiresAt: now + IDEMPOTENCY_TTL_MS });
+    try {
+        const value = await promise;
+        if (options.keep && !options.keep(value) && results.get(key)?.promise === promise) results.delete(key);
+        return { value, replayed: false };
+    } catch (err) {
+        if (results.get(key)?.promise === promise) results.delete(key);
+        throw err;
+    }
+}
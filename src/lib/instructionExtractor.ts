@@ -0,0 +1,126 @@
+import type { ClarifyInstruction, Instruction } from '@/lib/instructionSchema';
+import { DEFAULT_TZ, defaultEventEnd, resolveZonedIso } from '@/lib/dates';
+import { createChatExtractor } from '@/lib/openai';
+import { createRuleExtractor } from '@/lib/ruleExtractor';
+
+/**
+ * Camada de extração de instruções (conversa → lista de `Instruction`), independente de provedor.
+ *
+ * Provedores:
+ * - "openai" (padrão): API da OpenAI ('@/lib/openai').
+ * - "local": servidor compatível com a API da OpenAI (Ollama, LM Studio, vLLM...), por base URL + modelo.
+ * - "rules": regras/fixtures determinísticas, sem rede ('@/lib/ruleExtractor') — para testes.
+ *
+ * ENV:
+ * - INSTRUCTION_EXTRACTOR ("openai" | "local" | "rules")
+ * - openai: OPENAI_API_KEY, (opcional) OPENAI_MODEL (padrão "gpt-5-nano")
+ * - local:  LOCAL_LLM_BASE_URL (padrão "http://localhost:11434/v1"), LOCAL_LLM_MODEL,
+ *           (opcionais) LOCAL_LLM_API_KEY, LOCAL_LLM_JSON_MODE ("false" desliga o response_format)
+ * - rules:  (opcional) EXTRACTOR_FIXTURES_PATH (arquivo JSON de fixtures)
+ */
+
+/** O que o modelo precisa saber além da conversa para resolver "amanhã às 10h". */
+export type ExtractionContext = {
+    now: Date;
+    timeZone: string; // fuso do usuário (IANA) ou DEFAULT_TZ
+    profile: Record<string, string>; // dados já conhecidos do usuário (ex.: { Nome: "Ana", Email: "..." })
+    pending?: Pick<ClarifyInstruction, 'intent' | 'missing' | 'partial'>; // pedido do turno anterior aguardando complemento
+};
+
+export type ExtractionInput = {
+    conversation: string; // histórico ("U: ..." / "A: ...")
+    userPhone: string; // telefone ATUAL do usuário, usado como chave de busca na planilha
+    context: ExtractionContext;
+};
+
+export interface InstructionExtractor {
+    readonly name: string;
+    extract(input: ExtractionInput): Promise<Instruction[]>;
+}
+
+export type ExtractorProvider = 'openai' | 'local' | 'rules';
+
+function createExtractor(provider: ExtractorProvider): InstructionExtractor {
+    switch (provider) {
+        case 'local':
+            if (!process.env.LOCAL_LLM_MODEL) throw new Error('LOCAL_LLM_MODEL ausente (INSTRUCTION_EXTRACTOR=local).');
+            return createChatExtractor({
+                name: 'local',
+                model: process.env.LOCAL_LLM_MODEL,
+                baseURL: process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1',
+                apiKey: process.env.LOCAL_LLM_API_KEY || 'local', // o SDK exige uma chave; servidores locais ignoram
+                jsonMode: process.env.LOCAL_LLM_JSON_MODE !== 'false',
+            });
+        case 'rules':
+            return createRuleExtractor({ fixturesPath: process.env.EXTRACTOR_FIXTURES_PATH });
+        default:
+            return createChatExtractor({
+                name: 'openai',
+                model: process.env.OPENAI_MODEL || 'gpt-5-nano',
+                apiKey: process.env.OPENAI_API_KEY,
+            });
+    }
+}
+
+let extractor: InstructionExtractor | null = null;
+
+/** Extrator escolhido por INSTRUCTION_EXTRACTOR (criado na primeira chamada). */
+export function getInstructionExtractor(): InstructionExtractor {
+    if (!extractor) {
+        const provider = (process.env.INSTRUCTION_EXTRACTOR || 'openai').trim().toLowerCase();
+        if (provider !== 'openai' && provider !== 'local' && provider !== 'rules') {
+            throw new Error(`INSTRUCTION_EXTRACTOR inválido: "${provider}" (use "openai", "local" ou "rules").`);
+        }
+        extractor = createExtractor(provider);
+    }
+    return extractor;
+}
+
+/**
+ * Resolve `start`/`end` dos eventos no fuso do usuário (ISO com offset) e, na criação sem `end`,
+ * aplica a duração padrão. Assim o modelo pode devolver horários "de parede" sem fuso.
+ * Também usado pelo editData nas instruções montadas a partir de um pedido incompleto.
+ */
+export function resolveEventTimes(instruction: Instruction, timeZone: string): Instruction {
+    if (instruction.action !== 'create_event' && instruction.action !== 'update_event') return instruction;
+    const tz = instruction.event.timezone || timeZone;
+    const resolve = (value?: string) => (value ? resolveZonedIso(value, tz) : value);
+
+    if (instruction.action === 'create_event') {
+        const start = resolveZonedIso(instruction.event.start, tz);
+        const end = resolve(instruction.event.end) || defaultEventEnd(start, tz);
+        return { ...instruction, event: { ...instruction.event, timezone: tz, start, end } };
+    }
+    const { start, end } = instruction.event;
+    return { ...instruction, event: { ...instruction.event, timezone: tz, start: resolve(start), end: resolve(end) } };
+}
+
+/**
+ * Analisa a conversa e extrai as instruções de edição estruturadas (uma ou mais ações, na ordem
+ * em que o usuário pediu), pelo provedor configurado.
+ * @param conversation O histórico da conversa.
+ * @param userPhone O telefone ATUAL do usuário, para ser usado como chave de busca.
+ * @param context Agora, fuso, dados conhecidos do usuário e pedido aguardando complemento
+ *                (padrões: agora, DEFAULT_TZ, nenhum, nenhum).
+ * @returns A lista ordenada de instruções validadas, tipadas por `action`, com horários já no fuso do usuário.
+ * @throws Error se o provedor falhar ou a resposta continuar inválida.
+ */
+export async function getEditInstruction(
+    conversation: string,
+    userPhone: string,
+    context: Partial<ExtractionContext> = {}
+): Promise<Instruction[]> {
+    // Se a conversa estiver vazia, retorna um erro controlado.
+    if (!conversation || conversation.trim() === '') {
+        console.error("Aviso: Tentativa de chamar a IA com uma conversa vazia.");
+        return [{ action: 'error', data: { message: 'Conversa vazia.' } }];
+    }
+    const fullContext: ExtractionContext = {
+        now: context.now ?? new Date(),
+        timeZone: context.timeZone || DEFAULT_TZ,
+        profile: context.profile ?? {},
+        pending: context.pending,
+    };
+    const instructions = await getInstructionExtractor().extract({ conversation, userPhone, context: fullContext });
+    return instructions.map((instruction) => resolveEventTimes(instruction, fullContext.timeZone));
+}
@@ -0,0 +1,191 @@
+import { z } from 'zod';
+
+/**
+ * Schema (zod) das instruções de edição devolvidas pela IA.
+ *
+ * Cada ação tem seu próprio formato (união discriminada por `action`), de modo que
+ * o `switch` do editData recebe campos já validados e corretamente tipados.
+ */
+
+/**
+ * Texto obrigatório; números viram texto (a IA às vezes manda telefone como número).
+ * Diferente de `z.coerce.string()`, ausente/null falha como campo ausente em vez de virar "undefined"/"null".
+ */
+const requiredText = (message?: string) =>
+    z.preprocess((value) => (typeof value === 'number' ? String(value) : value), z.string().min(1, message));
+
+const identifierSchema = z.object({
+    key: requiredText(),
+    value: requiredText(),
+});
+
+const recurrenceSchema = z.object({
+    frequency: z.enum(['daily', 'weekly', 'monthly', 'yearly']),
+    interval: z.coerce.number().int().positive().optional(),
+    count: z.coerce.number().int().positive().optional(),
+    until: z.string().optional(),
+    weekdays: z.array(z.string()).optional(),
+});
+
+const eventSchema = z.object({
+    eventId: z.string().optional(),
+    summary: z.string().optional(),
+    description: z.string().optional(),
+    location: z.string().optional(),
+    attendees: z.array(z.string()).optional(), // emails
+    start: z.string().optional(), // ISO
+    end: z.string().optional(), // ISO
+    timezone: z.string().optional(), // IANA
+    date: z.string().optional(), // yyyy-mm-dd (ajuda para busca)
+    calendarId: z.string().optional(),
+    recurrence: recurrenceSchema.optional(),
+    scope: z.enum(['this', 'following', 'all']).optional(),
+});
+
+/** Evento a ser localizado (update/delete): precisa de `eventId` ou de um título para busca. */
+const targetEventSchema = eventSchema.refine((ev) => !!(ev.eventId || ev.summary), {
+    message: 'Informe "eventId" ou "summary" para localizar o evento.',
+});
+
+/**
+ * Campos comuns a toda ação de uma lista: `depends_on_previous` indica que a ação só deve rodar
+ * se a anterior foi concluída (ex.: "marca a reunião e depois avisa o Felipe").
+ */
+const baseActionSchema = z.object({
+    depends_on_previous: z.boolean().optional(),
+});
+
+const sheetUpdateSchema = baseActionSchema.extend({
+    new_value: requiredText('new_value ausente.'),
+    identifier: identifierSchema.optional(), // só conferido: a linha vem da identidade da sessão
+});
+
+/** Dados do autocadastro, por chave do registro de campos (ex.: { nome, email, telefone }). Vazios são descartados. */
+const registrationSchema = z.preprocess(
+    (value) =>
+        value && typeof value === 'object'
+            ? Object.fromEntries(Object.entries(value).filter(([, v]) => v !== null && v !== undefined && v !== ''))
+            : value,
+    z.record(z.string(), z.coerce.string())
+);
+
+export const instructionSchema = z.discriminatedUnion('action', [
+    // ======= SHEETS =======
+    sheetUpdateSchema.extend({ action: z.literal('update_phone') }),
+    sheetUpdateSchema.extend({ action: z.literal('update_email') }),
+    sheetUpdateSchema.extend({ action: z.literal('update_name') }),
+    sheetUpdateSchema.extend({
+        action: z.literal('update_sheet_field'),
+        field: z.string().min(1, 'field ausente.'),
+    }),
+    baseActionSchema.extend({
+        action: z.literal('register_user'),
+        user: registrationSchema,
+    }),
+
+    // ======= CALENDAR =======
+    baseActionSchema.extend({
+        action: z.literal('create_event'),
+        event: eventSchema.extend({
+            summary: z.string().min(1, 'summary ausente.'),
+            start: z.string().min(1, 'start ausente.'),
+            end: z.string().optional(), // sem `end`, vale a duração padrão (ver getEditInstruction)
+        }),
+        force: z.boolean().optional(), // agenda mesmo se houver conflito de horário
+    }),
+    baseActionSchema.extend({
+        action: z.literal('update_event'),
+        event: targetEventSchema,
+        force: z.boolean().optional(),
+    }),
+    baseActionSchema.extend({
+        action: z.literal('delete_event'),
+        event: targetEventSchema,
+    }),
+
+    // ======= LGPD (titular dos dados) =======
+    baseActionSchema.extend({ action: z.literal('export_my_data') }),
+    baseActionSchema.extend({ action: z.literal('delete_my_data') }),
+
+    // ======= DESFAZER =======
+    baseActionSchema.extend({ action: z.literal('undo_last') }),
+
+    // ======= Pedido incompleto =======
+    // A IA entendeu a intenção, mas faltam campos obrigatórios: o webhook pergunta e guarda o parcial
+    baseActionSchema.extend({
+        action: z.literal('clarify'),
+        intent: z.string().min(1, 'intent ausente.'), // ação pretendida (ex.: "create_event")
+        missing: z.array(z.string()).min(1, 'informe os campos que faltam em "missing".'), // ex.: ["event.start"]
+        partial: z.record(z.string(), z.unknown()).optional(), // o que já foi entendido, no formato da ação
+        question: z.string().optional(), // pergunta sugerida ao usuário
+    }),
+
+    // ======= Sem ação =======
+    baseActionSchema.extend({ action: z.literal('unknown') }),
+    baseActionSchema.extend({
+        action: z.literal('error'),
+        data: z.object({ message: z.string() }).optional(),
+    }),
+]);
+
+/**
+ * Resposta completa da IA: lista ordenada de ações (`{"actions": [...]}`).
+ * Uma instrução isolada (`{"action": ...}`) também é aceita e vira uma lista de um item.
+ */
+const wrapSingleAction = (value: unknown) =>
+    value && typeof value === 'object' && 'action' in value ? { actions: [value] } : value;
+
+export const instructionListSchema = z.preprocess(
+    wrapSingleAction,
+    z.object({ actions: z.array(instructionSchema).min(1, 'a lista "actions" está vazia.') })
+);
+
+/** Só o formato da lista (cada item com `action` em texto), sem validar os campos de cada ação. */
+const looseActionListSchema = z.preprocess(
+    wrapSingleAction,
+    z.object({ actions: z.array(z.object({ action: z.string() }).passthrough()).min(1) })
+);
+
+export type Instruction = z.infer<typeof instructionSchema>;
+export type InstructionAction = Instruction['action'];
+export type CalendarEvent = z.infer<typeof eventSchema>;
+export type ClarifyInstruction = Extract<Instruction, { action: 'clarify' }>;
+
+/** Problema de validação causado por campo ausente ou vazio (e não por valor errado). */
+function isMissingField(issue: z.ZodIssue): boolean {
+    if (issue.code === 'invalid_type') return issue.received === 'undefined' || issue.received === 'null';
+    return issue.code === 'too_small' && issue.type === 'string' && issue.minimum === 1;
+}
+
+/**
+ * Converte em `clarify` as instruções que só falharam por falta de campos obrigatórios
+ * (ex.: `create_event` sem `start`), nomeando os campos que faltam.
+ * @returns a lista com as instruções válidas + os `clarify`, ou null se algum problema não for de campo ausente.
+ */
+export function clarifyMissingFields(raw: unknown): Instruction[] | null {
+    const loose = looseActionListSchema.safeParse(raw);
+    if (!loose.success) return null;
+
+    const out: Instruction[] = [];
+    let clarified = false;
+    for (const item of loose.data.actions) {
+        const parsed = instructionSchema.safeParse(item);
+        if (parsed.success) {
+            out.push(parsed.data);
+            continue;
+        }
+        const issues = parsed.error.issues;
+        if (!issues.every(isMissingField)) return null;
+        const { action, ...partial } = item;
+        out.push({ action: 'clarify', intent: action, missing: issues.map((i) => i.path.join('.')), partial });
+        clarified = true;
+    }
+    return clarified ? out : null;
+}
+
+/** Lista legível dos problemas de validação (usada no log e no prompt de correção). */
+export function formatValidationIssues(error: z.ZodError): string {
+    return error.issues
+        .map((issue) => `${issue.path.length ? issue.path.join('.') : '(raiz)'}: ${issue.message}`)
+        .join('; ');
+}
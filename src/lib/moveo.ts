@@ -0,0 +1,193 @@
+/**
+ * Cliente tipado da Moveo Analytics (GraphQL `log_session_content_v2`).
+ *
+ * Devolve a sessão inteira — mensagens + metadados (canal, usuário, início/fim, avaliação, tags...) —
+ * para o editData (histórico da conversa) e para o getSessionHistory (resumo para handoff).
+ *
+ * ENV esperadas:
+ * - MOVEO_ANALYTICS_API_KEY
+ * - MOVEO_ACCOUNT_ID
+ * - (opcional) MOVEO_LOGS_URL (padrão "https://logs.moveo.ai/v1/graphql")
+ * - (opcional) MOVEO_ANALYTICS_TIMEOUT_MS (padrão 10000)
+ */
+
+const MOVEO_LOGS_URL = process.env.MOVEO_LOGS_URL || 'https://logs.moveo.ai/v1/graphql';
+const MOVEO_ACCOUNT_ID = process.env.MOVEO_ACCOUNT_ID;
+const MOVEO_ANALYTICS_API_KEY = process.env.MOVEO_ANALYTICS_API_KEY;
+const MOVEO_ANALYTICS_TIMEOUT_MS = Number(process.env.MOVEO_ANALYTICS_TIMEOUT_MS || 10000);
+
+export type MoveoMessage = {
+    id?: string | null;
+    event?: string; // "message:received" (usuário), "message:brain_send" (bot), ...
+    time?: string;
+    agent_id?: string | null; // preenchido quando a mensagem é de um agente humano
+    message?: {
+        text?: string | null;
+        responses?: Array<{ text?: string | null; texts?: string[] | null; type?: string | null }> | null;
+    } | null;
+};
+
+/** Linha de `log_session_content_v2`: mensagens + metadados da sessão. */
+export type MoveoSession = {
+    session_id: string;
+    messages: MoveoMessage[];
+    brain_id?: string | null;
+    brain_parent_id?: string | null;
+    brain_version?: number | null;
+    avg_confidence?: number | null;
+    min_confidence?: number | null;
+    channel?: string | null;
+    channel_user_id?: string | null;
+    desk_id?: string | null;
+    integration_id?: string | null;
+    external_user_id?: string | null;
+    user_id?: string | null;
+    user_name?: string | null;
+    user_email?: string | null;
+    start_time?: string | null;
+    end_time?: string | null;
+    expired_time?: string | null;
+    is_contained?: boolean | null;
+    is_covered?: boolean | null;
+    is_test?: boolean | null;
+    participated_brains?: string[] | null;
+    participated_collections?: string[] | null;
+    participated_agents?: string[] | null;
+    rating?: number | null;
+    feedback?: string | null;
+    tags?: string[] | null;
+    rule_ids?: string[] | null;
+    total_user_messages?: number | null;
+};
+
+/** Falha ao consultar a Moveo Analytics (HTTP, GraphQL, timeout ou configuração). */
+export class MoveoAnalyticsError extends Error {
+    constructor(message: string, readonly status?: number) {
+        super(message);
+        this.name = 'MoveoAnalyticsError';
+    }
+}
+
+const SESSION_CONTENT_QUERY = `
+    query SessionContentV2($sessionId: String) {
+        rows: log_session_content_v2(args: { session_id: $sessionId }) {
+            messages
+            brain_id
+            brain_parent_id
+            avg_confidence
+            brain_version
+            channel
+            channel_user_id
+            desk_id
+            end_time
+            expired_time
+            external_user_id
+            integration_id
+            is_contained
+            is_covered
+            is_test
+            min_confidence
+            participated_brains
+            participated_collections
+            participated_agents
+            rating
+            feedback
+            session_id
+            start_time
+            tags
+            rule_ids
+            total_user_messages
+            user_id
+            user_name
+            user_email
+        }
+    }
+`;
+
+/**
+ * Busca a sessão (mensagens + metadados).
+ * @returns a sessão, ou null se a Analytics não tem registro dela.
+ * @throws MoveoAnalyticsError em falha de configuração, HTTP, GraphQL ou timeout.
+ */
+export async function fetchSessionContent(sessionId: string): Promise<MoveoSession | null> {
+    if (!MOVEO_ANALYTICS_API_KEY || !MOVEO_ACCOUNT_ID) {
+        throw new MoveoAnalyticsError('MOVEO_ANALYTICS_API_KEY/MOVEO_ACCOUNT_ID ausentes.');
+    }
+
+    let res: Response;
+    try {
+        res = await fetch(MOVEO_LOGS_URL, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                Authorization: `apikey ${MOVEO_ANALYTICS_API_KEY}`,
+                'X-Moveo-Account-Id': MOVEO_ACCOUNT_ID,
+            },
+            body: JSON.stringify({ query: SESSION_CONTENT_QUERY, variables: { sessionId } }),
+            signal: AbortSignal.timeout(MOVEO_ANALYTICS_TIMEOUT_MS),
+        });
+    } catch (err: any) {
+        if (err?.name === 'TimeoutError') {
+            throw new MoveoAnalyticsError(`Analytics sem resposta após ${MOVEO_ANALYTICS_TIMEOUT_MS} ms.`);
+        }
+        throw new MoveoAnalyticsError(`Falha de rede ao chamar a Analytics: ${err?.message}`);
+    }
+
+    if (!res.ok) {
+        const txt = await res.text().catch(() => '');
+        throw new MoveoAnalyticsError(`Analytics request failed (${res.status}): ${txt}`, res.status);
+    }
+    const json = await res.json().catch(() => null);
+    if (json?.errors?.length) {
+        throw new MoveoAnalyticsError(`Analytics GraphQL: ${json.errors.map((e: any) => e?.message).join('; ')}`);
+    }
+
+    const row = json?.data?.rows?.[0];
+    if (!row) return null;
+    return { ...row, session_id: row.session_id || sessionId, messages: Array.isArray(row.messages) ? row.messages : [] };
+}
+
+/** Só as mensagens da sessão (vazio se a sessão não existe). */
+export async function fetchSessionMessages(sessionId: string): Promise<MoveoMessage[]> {
+    return (await fetchSessionContent(sessionId))?.messages ?? [];
+}
+
+/** session_id do corpo do webhook (a Moveo usa nomes diferentes conforme o canal/versão). */
+export function sessionIdFromBody(body: any): string | undefined {
+    return (
+        body?.context?.session_id ||
+        body?.session_id ||
+        body?.context?.$sys_session ||
+        body?.context?.['$sys-session'] ||
+        body?.['$sys-session'] ||
+        undefined
+    );
+}
+
+/** Texto de uma mensagem: o do usuário ou as respostas do bot/agente concatenadas. */
+export function messageText(m: MoveoMessage): string {
+    if (m.event === 'message:received') return m.message?.text ?? '';
+    const responses = m.message?.responses;
+    if (Array.isArray(responses)) {
+        return responses
+            .map((r) => r?.text || (Array.isArray(r?.texts) ? r.texts.join(' ') : ''))
+            .filter(Boolean)
+            .join(' ');
+    }
+    return m.message?.text ?? '';
+}
+
+/** Conversa em texto simples ("U: ..." / "A: ...") para o prompt da IA. */
+export function buildPlainConversation(messages: MoveoMessage[]): string {
+    return messages
+        .map((m) => {
+            if (m.event === 'message:received') return `U: ${messageText(m)}`;
+            if (m.event === 'message:brain_send') {
+                const joined = messageText(m);
+                return joined ? `A: ${joined}` : '';
+            }
+            return '';
+        })
+        .filter(Boolean)
+        .join('\n');
+}
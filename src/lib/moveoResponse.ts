@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+
+/**
+ * Contrato único de resposta dos webhooks para a Moveo.
+ *
+ * Toda resposta (sucesso ou erro) sai no mesmo envelope, sempre com as duas partes:
+ *   { "output": { "live_instructions": { "<chave>": "<mensagem>" }, "session_variables": { ... } } }
+ *
+ * - A chave de `live_instructions` é fixa por rota (ver LIVE_INSTRUCTION_KEYS), para que os
+ *   diálogos da Moveo leiam sempre o mesmo lugar.
+ * - `session_variables` vai mesmo vazio: o que vier aqui é mesclado na memória do bot.
+ */
+
+/** Chave de `live_instructions` usada por cada rota. */
+export const LIVE_INSTRUCTION_KEYS = {
+    userData: 'conteudo',
+    calendar: 'agenda',
+    edit: 'edit',
+    history: 'historico',
+} as const;
+
+export type LiveInstructionKey = (typeof LIVE_INSTRUCTION_KEYS)[keyof typeof LIVE_INSTRUCTION_KEYS];
+
+export type SessionVariables = Record<string, string | number | boolean | null>;
+
+export type MoveoResponse = {
+    output: {
+        live_instructions: Partial<Record<LiveInstructionKey, string>>;
+        session_variables: SessionVariables;
+    };
+};
+
+/** Remove valores `undefined` (a Moveo não distingue ausente de vazio). */
+function cleanVariables(vars: Record<string, unknown>): SessionVariables {
+    const out: SessionVariables = {};
+    for (const [key, value] of Object.entries(vars)) {
+        if (value === undefined) continue;
+        out[key] = value as SessionVariables[string];
+    }
+    return out;
+}
+
+/**
+ * Monta a resposta no envelope da Moveo.
+ * @param key Chave de `live_instructions` da rota (LIVE_INSTRUCTION_KEYS).
+ * @param message Mensagem pronta para o usuário.
+ * @param sessionVariables Variáveis de sessão a atualizar (padrão: nenhuma).
+ * @param status Status HTTP (padrão 200).
+ */
+export function moveoResponse(
+    key: LiveInstructionKey,
+    message: string,
+    sessionVariables: Record<string, unknown> = {},
+    status = 200
+): NextResponse<MoveoResponse> {
+    return NextResponse.json(
+        {
+            output: {
+                live_instructions: { [key]: message },
+                session_variables: cleanVariables(sessionVariables),
+            },
+        },
+        { status }
+    );
+}
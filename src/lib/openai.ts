@@ -1,63 +1,190 @@
 import OpenAI from 'openai';
+import {
+    clarifyMissingFields,
+    formatValidationIssues,
+    instructionListSchema,
+    type Instruction,
+} from '@/lib/instructionSchema';
+import { describeEditableFields, describeRegistrationFields } from '@/lib/fieldRegistry';
+import { WEEKDAY_LABELS, formatZonedIso, getZonedParts } from '@/lib/dates';
+import type { ExtractionContext, ExtractionInput, InstructionExtractor } from '@/lib/instructionExtractor';
 
-// Inicializa o cliente da OpenAI uma única vez
-const openai = new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY,
-});
+/**
+ * Extratores de instruções via Chat Completions (ver '@/lib/instructionExtractor'):
+ * - a própria OpenAI;
+ * - qualquer servidor local compatível com a API da OpenAI (Ollama, LM Studio, vLLM...), por `baseURL`.
+ */
+
+// Quantas vezes pedimos para a IA corrigir uma resposta que não passou na validação
+const MAX_REPAIR_ATTEMPTS = 1;
+
+export type ChatExtractorOptions = {
+    name: string; // aparece nos logs/erros (ex.: "openai", "local")
+    model: string;
+    apiKey?: string;
+    baseURL?: string; // servidor compatível com a OpenAI (ex.: "http://localhost:11434/v1")
+    jsonMode?: boolean; // envia response_format json_object (alguns servidores locais não suportam)
+};
 
 /**
- * Usa o modelo GPT para analisar a conversa e extrair uma instrução de edição estruturada.
- * @param conversation O histórico da conversa.
- * @param userPhone O telefone ATUAL do usuário, para ser usado como chave de busca.
- * @returns Um objeto JSON com a ação a ser executada e os dados necessários.
+ * Modelos locais às vezes cercam o JSON com ```json ... ``` ou texto; fica só o objeto.
  */
-export async function getEditInstruction(conversation: string, userPhone: string): Promise<any> {
-    // Se a conversa estiver vazia, retorna um erro controlado.
-    if (!conversation || conversation.trim() === '') {
-        console.error("Aviso: Tentativa de chamar a IA com uma conversa vazia.");
-        return { action: 'error', data: { message: 'Conversa vazia.' } };
+function extractJsonText(content: string): string {
+    const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/i)?.[1] ?? content;
+    const start = fenced.indexOf('{');
+    const end = fenced.lastIndexOf('}');
+    return start >= 0 && end > start ? fenced.slice(start, end + 1) : fenced.trim();
+}
+
+/** Bloco de contexto do prompt: agora, dia da semana, fuso, dados conhecidos e pedido pendente. */
+function describeContext({ now, timeZone, profile, pending }: ExtractionContext): string {
+    const weekday = WEEKDAY_LABELS[getZonedParts(now, timeZone).weekday];
+    const known = Object.entries(profile).map(([field, value]) => `${field}: ${value}`);
+    const lines = [
+        `Agora: ${formatZonedIso(now, timeZone)} (${weekday}), fuso horário do usuário: ${timeZone}.`,
+        `Dados conhecidos do usuário: ${known.length ? known.join('; ') : 'nenhum'}.`,
+    ];
+    if (pending) {
+        lines.push(
+            `Pedido aguardando complemento (turno anterior): ${JSON.stringify(pending)}.`,
+            `Se a última mensagem do usuário completar esse pedido, devolva a instrução "${pending.intent}" COMPLETA, combinando o "partial" com o que ele acabou de dizer.`
+        );
     }
+    return lines.join('\n');
+}
+
+/**
+ * Cria um extrator que usa o modelo para analisar a conversa e extrair as instruções de edição
+ * estruturadas (uma ou mais ações, na ordem em que o usuário pediu).
+ * A resposta é validada contra `instructionListSchema`; se falhar, os erros são devolvidos ao modelo
+ * para uma nova tentativa.
+ * O cliente só é criado quando o extrator é escolhido (primeira chamada), não ao importar o módulo:
+ * sem OPENAI_API_KEY, os outros provedores continuam funcionando.
+ */
+export function createChatExtractor(options: ChatExtractorOptions): InstructionExtractor {
+    const client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL });
+    return {
+        name: options.name,
+        extract: (input) => runChatExtraction(client, options, input),
+    };
+}
+
+/**
+ * @returns A lista ordenada de instruções validadas, tipadas por `action`.
+ * @throws Error se a resposta vier vazia ou continuar inválida após a tentativa de correção.
+ */
+async function runChatExtraction(
+    client: OpenAI,
+    options: ChatExtractorOptions,
+    { conversation, userPhone, context }: ExtractionInput
+): Promise<Instruction[]> {
+    const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
+        {
+            role: 'system',
+            content: `
+                Você é um assistente especialista em extrair instruções de edição a partir de uma conversa.
+${describeContext(context).replace(/^/gm, '                ')}
+                Datas relativas ("hoje", "amanhã", "sexta que vem", "daqui a 2 horas") partem de "Agora", nesse fuso.
+                Sua resposta DEVE ser um objeto JSON no formato {"actions": [ ...instruções... ]}, com as ações na ordem em que o usuário pediu.
+                Um único pedido vira uma lista com uma ação. Considere apenas o pedido mais recente do usuário.
+                A conversa pode começar com um bloco "[Resumo do contexto anterior ...]": ele serve só de contexto.
+                Pedidos listados ali como JÁ ATENDIDOS foram executados; NÃO os repita, a menos que o usuário peça de novo nas mensagens seguintes.
+                Se uma ação só fizer sentido caso a anterior dê certo, inclua nela "depends_on_previous": true.
+                Exemplo: "muda meu e-mail para x@y.com e marca reunião amanhã às 10h" →
+                {"actions": [{"action": "update_email", "new_value": "x@y.com", ...}, {"action": "create_event", "event": {...}}]}
+
+                // ======================== CORREÇÃO DO PROMPT ========================
+                // Agora a IA vai gerar ações mais específicas como 'update_phone', 'update_email', etc.
+                // Isso vai corresponder diretamente aos 'cases' no seu switch.
+                Para atualizar a planilha, identifique o campo (nome, telefone ou email) e use uma das seguintes ações: "update_phone", "update_email", "update_name".
+                O campo "new_value" deve ser o novo valor extraído. O "identifier" deve ter a chave "telefone" e o valor "${userPhone}".
+                Exemplo: {"action": "update_phone", "new_value": "novo_numero", "identifier": {"key": "telefone", "value": "${userPhone}"}}
+                Campos que o usuário PODE alterar (use a chave entre aspas):
+${describeEditableFields().replace(/^/gm, '                ')}
+                Para os demais campos da lista, use "update_sheet_field" com "field" igual à chave:
+                {"action": "update_sheet_field", "field": "chave", "new_value": "...", "identifier": {"key": "telefone", "value": "${userPhone}"}}
+                Se o usuário pedir para alterar um campo fora da lista, retorne {"action": "unknown"}.
 
-    // Esta é a forma correta de chamar a API de Chat Completions
-    const completion = await openai.chat.completions.create({
-        model: 'gpt-5-nano', // ou o modelo que preferir
-        response_format: { type: 'json_object' }, // Parâmetro correto para forçar JSON
-        messages: [
+                Se o usuário quiser se cadastrar (ex.: o assistente disse que não encontrou o cadastro e o usuário enviou seus dados),
+                use "register_user" com "user" contendo SOMENTE os dados que o usuário informou, pelas chaves abaixo:
+${describeRegistrationFields().replace(/^/gm, '                ')}
+                Exemplo: {"action": "register_user", "user": {"nome": "Ana Silva", "email": "ana@empresa.com"}}
+                
+                Para criar, editar ou deletar eventos na agenda:
+                Em "start"/"end" use o horário local do usuário, no formato yyyy-mm-ddTHH:mm:ss, sem "Z" e sem offset.
+                Se o usuário não disser quando termina, omita "end" (a duração padrão é aplicada depois).
+                {"action": "create_event", "event": {"summary": "Título", "start": "...", "end": "..."}}
+                {"action": "update_event", "event": {"summary": "Título a ser encontrado", "start": "novo_horario_inicio"}}
+                {"action": "delete_event", "event": {"summary": "Título a ser cancelado"}}
+
+                Eventos recorrentes ("toda segunda às 9h", "a cada 15 dias", "todo dia útil até dezembro"):
+                inclua em "event" o campo "recurrence" com "frequency" ("daily" | "weekly" | "monthly" | "yearly"),
+                "interval" (a cada N períodos, padrão 1), "weekdays" (ex.: ["MO","WE"]) e, se o usuário disser, "count" (número de vezes) OU "until" (yyyy-mm-dd).
+                Exemplo: {"action": "create_event", "event": {"summary": "Reunião de equipe", "start": "...", "end": "...", "recurrence": {"frequency": "weekly", "interval": 1, "weekdays": ["MO"]}}}
+                Para alterar ou cancelar eventos de uma série, inclua em "event" o campo "scope":
+                "this" (só esta ocorrência — informe "date"), "following" (esta e as seguintes — informe "date") ou "all" (a série inteira).
+                Exemplo: {"action": "delete_event", "event": {"summary": "Reunião de equipe", "date": "2025-10-20", "scope": "this"}}
+                Se o assistente avisou sobre conflito de horário e o usuário pediu para marcar MESMO ASSIM, inclua "force": true na instrução.
+                Se o usuário escolheu um dos horários alternativos sugeridos, use esse horário em "start"/"end" (sem "force").
+                
+                Pedidos sobre os próprios dados pessoais (LGPD):
+                - ver/exportar/receber uma cópia de tudo que temos sobre ele: {"action": "export_my_data"}
+                - apagar/excluir seus dados, "esquecer" o cadastro: {"action": "delete_my_data"}
+
+                Se o usuário pedir para desfazer/voltar atrás a última alteração ("desfaz", "volta como estava"): {"action": "undo_last"}
+
+                Se o pedido estiver claro mas faltar informação obrigatória (ex.: marcar evento sem dia/horário, trocar telefone sem o número novo),
+                NÃO invente valores. Retorne "clarify" com a ação pretendida, os campos que faltam, o que já entendeu e UMA pergunta curta e natural:
+                {"action": "clarify", "intent": "create_event", "missing": ["event.start"], "partial": {"event": {"summary": "Dentista"}}, "question": "Para quando marco o dentista?"}
+
+                Os exemplos acima mostram UMA instrução; sempre coloque as instruções dentro de "actions".
+                Analise a conversa e retorne APENAS o JSON. Se não conseguir extrair uma ação clara, retorne {"actions": [{"action": "unknown"}]}.
+            `,
+        },
+        { role: 'user', content: conversation },
+    ];
+
+    let lastProblem = '';
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+        const completion = await client.chat.completions.create({
+            model: options.model,
+            ...(options.jsonMode === false ? {} : { response_format: { type: 'json_object' as const } }),
+            messages,
+        });
+
+        const responseContent = completion.choices[0]?.message?.content;
+
+        if (!responseContent) {
+            throw new Error(`A resposta do modelo (${options.name}) estava vazia.`);
+        }
+
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(extractJsonText(responseContent));
+        } catch {
+            console.error("Erro ao fazer o parse da resposta da IA. Resposta não era um JSON válido:", responseContent);
+            lastProblem = 'a resposta não é um JSON válido';
+        }
+
+        if (parsed !== undefined) {
+            const result = instructionListSchema.safeParse(parsed);
+            if (result.success) return result.data.actions;
+            // Só faltam campos obrigatórios: o modelo não tem como inventá-los, então perguntamos ao usuário
+            const clarified = clarifyMissingFields(parsed);
+            if (clarified) return clarified;
+            lastProblem = formatValidationIssues(result.error);
+            console.error(`Instrução da IA inválida (tentativa ${attempt + 1}):`, lastProblem, responseContent);
+        }
+
+        // Devolve os erros ao modelo e pede uma versão corrigida
+        messages.push(
+            { role: 'assistant', content: responseContent },
             {
-                role: 'system',
-                content: `
-                    Você é um assistente especialista em extrair uma única instrução de edição a partir de uma conversa.
-                    Sua resposta DEVE ser um objeto JSON.
-
-                    // ======================== CORREÇÃO DO PROMPT ========================
-                    // Agora a IA vai gerar ações mais específicas como 'update_phone', 'update_email', etc.
-                    // Isso vai corresponder diretamente aos 'cases' no seu switch.
-                    Para atualizar a planilha, identifique o campo (nome, telefone ou email) e use uma das seguintes ações: "update_phone", "update_email", "update_name".
-                    O campo "new_value" deve ser o novo valor extraído. O "identifier" deve ter a chave "telefone" e o valor "${userPhone}".
-                    Exemplo: {"action": "update_phone", "new_value": "novo_numero", "identifier": {"key": "telefone", "value": "${userPhone}"}}
-                    
-                    Para criar, editar ou deletar eventos na agenda:
-                    {"action": "create_event", "event": {"summary": "Título", "start": "...", "end": "..."}}
-                    {"action": "update_event", "event": {"summary": "Título a ser encontrado", "start": "novo_horario_inicio"}}
-                    {"action": "delete_event", "event": {"summary": "Título a ser cancelado"}}
-                    
-                    Analise a conversa e retorne APENAS o JSON. Se não conseguir extrair uma ação clara, retorne {"action": "unknown"}.
-                `,
-            },
-            { role: 'user', content: conversation },
-        ],
-    });
-
-    const responseContent = completion.choices[0].message.content;
-
-    if (!responseContent) {
-        throw new Error('A resposta da OpenAI estava vazia.');
+                role: 'user',
+                content: `Sua resposta não passou na validação: ${lastProblem}. Corrija e retorne APENAS o JSON da instrução.`,
+            }
+        );
     }
 
-    try {
-        return JSON.parse(responseContent);
-    } catch (error) {
-        console.error("Erro ao fazer o parse da resposta da IA. Resposta não era um JSON válido:", responseContent);
-        throw new Error("A resposta da IA não estava no formato JSON esperado.");
-    }
-}
\ No newline at end of file
+    throw new Error(`A resposta da IA não estava no formato esperado (${lastProblem}).`);
+}
@@ -0,0 +1,110 @@
+import { randomUUID } from 'crypto';
+
+/**
+ * Ações pendentes de confirmação (duas etapas) para edições destrutivas.
+ *
+ * A instrução fica guardada em memória, por `session_id`, com um token curto e validade limitada.
+ * O token também vai para as session_variables (`pending_action_token`), de modo que uma
+ * confirmação só vale para a pergunta que foi feita naquela sessão.
+ *
+ * Obs.: o armazenamento é por processo. Em ambiente serverless com várias instâncias,
+ * uma confirmação pode cair em outra instância e expirar sem efeito (o usuário precisa pedir de novo).
+ *
+ * ENV opcionais:
+ * - CONFIRM_ACTIONS (ex.: "delete_event,update_phone") → ações que exigem confirmação
+ * - CONFIRMATION_TTL_SECONDS (ex.: "300")             → validade da pendência
+ */
+
+export type PendingAction<T = unknown> = {
+    token: string;
+    instruction: T;
+    summary: string; // pergunta exibida ao usuário
+    request: string; // pedido original do usuário (o "sim" da confirmação não diz o que foi feito)
+    expiresAt: number; // epoch ms
+};
+
+const DEFAULT_CONFIRM_ACTIONS = [
+    'delete_event',
+    'update_phone',
+    'update_email',
+    'update_name',
+    'update_sheet_field',
+    'delete_my_data',
+];
+
+const CONFIRM_ACTIONS = new Set(
+    (process.env.CONFIRM_ACTIONS ?? DEFAULT_CONFIRM_ACTIONS.join(','))
+        .split(',')
+        .map((a) => a.trim())
+        .filter(Boolean)
+);
+
+const CONFIRMATION_TTL_MS = Number(process.env.CONFIRMATION_TTL_SECONDS || 300) * 1000;
+
+const store = new Map<string, PendingAction>();
+
+/** Indica se a ação precisa de confirmação explícita do usuário antes de rodar. */
+export function requiresConfirmation(action: string): boolean {
+    return CONFIRM_ACTIONS.has(action);
+}
+
+/** Guarda (substituindo a anterior) a ação pendente da sessão. */
+export function savePendingAction<T>(sessionId: string, instruction: T, summary: string, request: string): PendingAction<T> {
+    const pending: PendingAction<T> = {
+        token: randomUUID().slice(0, 8),
+        instruction,
+        summary,
+        request,
+        expiresAt: Date.now() + CONFIRMATION_TTL_MS,
+    };
+    store.set(sessionId, pending);
+    return pending;
+}
+
+/**
+ * Devolve a ação pendente da sessão, se ainda válida.
+ * Quando `token` é informado, ele precisa bater com o da pendência.
+ */
+export function getPendingAction<T>(sessionId: string, token?: string): PendingAction<T> | null {
+    const pending = store.get(sessionId);
+    if (!pending) return null;
+    if (pending.expiresAt < Date.now()) {
+        store.delete(sessionId);
+        return null;
+    }
+    if (token && token !== pending.token) return null;
+    return pending as PendingAction<T>;
+}
+
+export function clearPendingAction(sessionId: string) {
+    store.delete(sessionId);
+}
+
+// Respostas curtas aceitas como a mensagem INTEIRA (sem acentos/pontuação). Qualquer outra coisa vai para a IA.
+const CONFIRM_PHRASES = new Set([
+    'sim', 's', 'ss', 'pode', 'pode sim', 'sim pode', 'ok', 'okay', 'isso', 'isso mesmo', 'claro', 'certo',
+    'confirmo', 'confirma', 'confirmar', 'confirmado', 'sim confirmo', 'sim por favor', 'positivo', 'manda',
+    'manda ver', 'pode ser', 'beleza', 'fechado', 'com certeza', 'exclui', 'apaga', 'pode apagar', 'pode excluir',
+]);
+const CANCEL_PHRASES = new Set([
+    'nao', 'n', 'cancela', 'cancelar', 'cancele', 'pode cancelar', 'deixa', 'deixa pra la', 'esquece', 'desisto',
+    'negativo', 'melhor nao', 'nao obrigado', 'nao quero', 'nao precisa', 'nao pode', 'nao confirmo',
+]);
+
+/**
+ * Classifica a resposta do usuário à pergunta de confirmação.
+ * Só respostas que são, por inteiro, um "sim"/"não" conhecido contam: "ok, mas muda pra 15h" ou
+ * "pode marcar outro horário?" devolvem null e seguem para a IA como pedido novo.
+ */
+export function classifyConfirmation(text: string): 'confirm' | 'cancel' | null {
+    const t = text
+        .toLowerCase()
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/[^a-z0-9]+/g, ' ')
+        .trim();
+    if (!t) return null;
+    if (CANCEL_PHRASES.has(t)) return 'cancel';
+    if (CONFIRM_PHRASES.has(t)) return 'confirm';
+    return null;
+}
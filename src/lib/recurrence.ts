@@ -0,0 +1,134 @@
+/**
+ * Recorrência de eventos (RFC 5545 / RRULE) no formato aceito pelo Google Calendar.
+ *
+ * Exemplo: "toda segunda às 9h" → { frequency: "weekly", weekdays: ["MO"] }
+ *          → ["RRULE:FREQ=WEEKLY;INTERVAL=1;BYDAY=MO"]
+ */
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export type Recurrence = {
+    frequency: RecurrenceFrequency;
+    interval?: number; // a cada N períodos (padrão 1)
+    count?: number; // número total de ocorrências
+    until?: string; // data final (ISO ou yyyy-mm-dd)
+    weekdays?: string[]; // "MO", "TU", "WE", "TH", "FR", "SA", "SU"
+};
+
+/** Qual parte de uma série recorrente uma edição/exclusão atinge. */
+export type RecurrenceScope = 'this' | 'following' | 'all';
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const WEEKDAY_ALIASES: Record<string, string> = {
+    domingo: 'SU',
+    segunda: 'MO',
+    terca: 'TU',
+    quarta: 'WE',
+    quinta: 'TH',
+    sexta: 'FR',
+    sabado: 'SA',
+};
+
+const WEEKDAY_LABELS: Record<string, string> = {
+    SU: 'domingo',
+    MO: 'segunda',
+    TU: 'terça',
+    WE: 'quarta',
+    TH: 'quinta',
+    FR: 'sexta',
+    SA: 'sábado',
+};
+
+/** Data no formato de UNTIL do RRULE (UTC): 20251231T235959Z. */
+function formatUntil(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function normalizeWeekday(value: string): string | null {
+    const v = value
+        .trim()
+        .toLowerCase()
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/-feira$/, '');
+    if (WEEKDAY_CODES.includes(v.toUpperCase())) return v.toUpperCase();
+    return WEEKDAY_ALIASES[v] || null;
+}
+
+/**
+ * Monta as linhas de recorrência (campo `recurrence` do evento) a partir da estrutura extraída pela IA.
+ * @throws Error se a frequência for inválida.
+ */
+export function buildRecurrence(rec: Recurrence): string[] {
+    const freq = String(rec.frequency || '').toUpperCase();
+    if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(freq)) {
+        throw new Error(`Frequência de recorrência inválida: "${rec.frequency}".`);
+    }
+    const parts = [`FREQ=${freq}`, `INTERVAL=${Math.max(1, Number(rec.interval) || 1)}`];
+
+    const weekdays = (rec.weekdays || []).map(normalizeWeekday).filter(Boolean) as string[];
+    if (weekdays.length) parts.push(`BYDAY=${Array.from(new Set(weekdays)).join(',')}`);
+
+    // COUNT e UNTIL são mutuamente exclusivos no RFC 5545: COUNT tem prioridade
+    if (rec.count && Number(rec.count) > 0) {
+        parts.push(`COUNT=${Math.floor(Number(rec.count))}`);
+    } else if (rec.until) {
+        const until = /^\d{4}-\d{2}-\d{2}$/.test(rec.until) ? new Date(`${rec.until}T23:59:59Z`) : new Date(rec.until);
+        if (!isNaN(until.getTime())) parts.push(`UNTIL=${formatUntil(until)}`);
+    }
+    return [`RRULE:${parts.join(';')}`];
+}
+
+/** Descrição curta em português ("toda semana (segunda, quarta)", "a cada 2 dias, 10 vezes"). */
+export function describeRecurrence(rec: Recurrence): string {
+    const interval = Math.max(1, Number(rec.interval) || 1);
+    const units: Record<string, [string, string]> = {
+        daily: ['todo dia', 'dias'],
+        weekly: ['toda semana', 'semanas'],
+        monthly: ['todo mês', 'meses'],
+        yearly: ['todo ano', 'anos'],
+    };
+    const [single, plural] = units[rec.frequency] || ['', ''];
+    let text = interval === 1 ? single : `a cada ${interval} ${plural}`;
+    const weekdays = (rec.weekdays || []).map(normalizeWeekday).filter(Boolean) as string[];
+    if (weekdays.length) text += ` (${weekdays.map((d) => WEEKDAY_LABELS[d]).join(', ')})`;
+    if (rec.count) text += `, ${rec.count} vezes`;
+    else if (rec.until) text += `, até ${rec.until.slice(0, 10)}`;
+    return text;
+}
+
+/**
+ * Encerra uma série antes de `before`: substitui COUNT/UNTIL das linhas RRULE por UNTIL = `before` - 1s.
+ * Usado para "esta e as seguintes" (a série original termina na ocorrência anterior).
+ */
+export function truncateRecurrence(lines: string[], before: Date): string[] {
+    const until = formatUntil(new Date(before.getTime() - 1000));
+    return lines.map((line) => {
+        if (!line.startsWith('RRULE:')) return line;
+        const parts = line
+            .slice('RRULE:'.length)
+            .split(';')
+            .filter((p) => !p.startsWith('COUNT=') && !p.startsWith('UNTIL='));
+        return `RRULE:${[...parts, `UNTIL=${until}`].join(';')}`;
+    });
+}
+
+/**
+ * Linhas de recorrência para a nova série criada a partir de uma ocorrência ("esta e as seguintes").
+ * Se a série original tinha COUNT, desconta as ocorrências que já ficaram na série antiga.
+ */
+export function continueRecurrence(lines: string[], previousOccurrences: number): string[] {
+    return lines.map((line) => {
+        if (!line.startsWith('RRULE:')) return line;
+        const parts = line
+            .slice('RRULE:'.length)
+            .split(';')
+            .map((p) => {
+                if (!p.startsWith('COUNT=')) return p;
+                const remaining = Number(p.slice('COUNT='.length)) - previousOccurrences;
+                return `COUNT=${Math.max(1, remaining)}`;
+            });
+        return `RRULE:${parts.join(';')}`;
+    });
+}
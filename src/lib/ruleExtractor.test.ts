@@ -0,0 +1,78 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import type { ExtractionContext } from '@/lib/instructionExtractor';
+import { createRuleExtractor } from '@/lib/ruleExtractor';
+
+const FIXTURES_PATH = path.resolve(__dirname, '../../fixtures/extractor.json');
+const USER_PHONE = '+5511999990000';
+const CONTEXT: ExtractionContext = { now: new Date('2030-01-10T12:00:00Z'), timeZone: 'America/Sao_Paulo', profile: {} };
+
+const extractor = createRuleExtractor({ fixturesPath: FIXTURES_PATH });
+
+function extract(conversation: string) {
+    return extractor.extract({ conversation, userPhone: USER_PHONE, context: CONTEXT });
+}
+
+describe('createRuleExtractor: fixtures', () => {
+    it('preenche $n com os grupos da regex', async () => {
+        expect(await extract('U: marca Dentista em 2030-01-15 às 10:00')).toEqual([
+            { action: 'create_event', event: { summary: 'Dentista', start: '2030-01-15T10:00:00' } },
+        ]);
+    });
+
+    it('devolve um clarify com o parcial quando a fixture é de pedido incompleto', async () => {
+        const [instruction] = await extract('U: marca uma reunião');
+        expect(instruction).toEqual({
+            action: 'clarify',
+            intent: 'create_event',
+            missing: ['event.start'],
+            partial: { event: { summary: 'reunião' } },
+            question: 'Para quando marco a reunião?',
+        });
+    });
+
+    it('olha só a última mensagem do usuário', async () => {
+        const conversation = ['U: marca uma reunião', 'A: Para quando marco a reunião?', 'U: 2030-01-15 às 10:00'].join('\n');
+        const [instruction] = await extract(conversation);
+        expect(instruction).toMatchObject({ action: 'clarify', partial: { event: { start: '2030-01-15T10:00:00' } } });
+    });
+
+    it('recusa, ao carregar, fixture com ação fora do schema', async () => {
+        const file = path.join(os.tmpdir(), `fixtures-invalidas-${process.pid}.json`);
+        await fs.writeFile(file, JSON.stringify([{ match: 'marca', actions: [{ action: 'create_event', event: {} }] }]), 'utf8');
+        try {
+            expect(() => createRuleExtractor({ fixturesPath: file })).toThrow(/Fixture 0 inválida/);
+        } finally {
+            await fs.rm(file, { force: true });
+        }
+    });
+});
+
+describe('createRuleExtractor: regras embutidas', () => {
+    it('troca de telefone, com o telefone atual como identificador', async () => {
+        expect(await extract('U: muda meu telefone para (11) 98888-7777')).toEqual([
+            { action: 'update_phone', new_value: '+5511988887777', identifier: { key: 'telefone', value: USER_PHONE } },
+        ]);
+    });
+
+    it('troca de e-mail', async () => {
+        expect(await extract('U: atualiza meu e-mail para Ana@Empresa.com')).toEqual([
+            { action: 'update_email', new_value: 'ana@empresa.com', identifier: { key: 'telefone', value: USER_PHONE } },
+        ]);
+    });
+
+    it.each([
+        ['desfaz', 'undo_last'],
+        ['volta como estava', 'undo_last'],
+        ['apaga meus dados', 'delete_my_data'],
+        ['quero exportar meus dados', 'export_my_data'],
+    ])('"%s" → %s', async (text, action) => {
+        expect(await extract(`U: ${text}`)).toEqual([{ action }]);
+    });
+
+    it('o resto fica unknown', async () => {
+        expect(await extract('U: qual a previsão do tempo?')).toEqual([{ action: 'unknown' }]);
+    });
+});
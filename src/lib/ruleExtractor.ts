@@ -0,0 +1,104 @@
+import { readFileSync } from 'fs';
+import { formatValidationIssues, instructionListSchema, type Instruction } from '@/lib/instructionSchema';
+import { normalizeEmail, normalizePhone } from '@/lib/fieldValidation';
+import type { ExtractionInput, InstructionExtractor } from '@/lib/instructionExtractor';
+
+/**
+ * Extrator determinístico, sem rede: para testes, desenvolvimento offline e CI.
+ *
+ * Olha só a última mensagem do usuário ("U: ..." da conversa) e aplica, nesta ordem:
+ * 1) fixtures do arquivo JSON (a primeira cujo `match` casar vence);
+ * 2) regras embutidas para os pedidos mais simples (telefone/e-mail, desfazer, LGPD);
+ * 3) `{"action": "unknown"}`.
+ *
+ * Formato das fixtures (lista):
+ *   [{ "match": "marca (.+) amanhã", "actions": [{ "action": "create_event", "event": { "summary": "$1", ... } }] }]
+ * - `match` é uma regex (sem diferenciar maiúsculas); `$1`..`$9` nos textos de `actions` recebem os grupos.
+ * - `{{user_phone}}` recebe o telefone atual do usuário.
+ * - As ações passam pelo mesmo schema da IA; fixture inválida gera erro ao carregar (com `$n` e
+ *   `{{user_phone}}` preenchidos por valores de exemplo) e, de novo, ao casar com os grupos reais.
+ */
+
+type Fixture = { match: RegExp; actions: unknown[] };
+
+// Valores de exemplo para validar as fixtures ao carregar, antes de haver grupos reais
+const SAMPLE_GROUPS = Array.from({ length: 10 }, (_, i) => `exemplo${i}`);
+const SAMPLE_PHONE = '+5511999999999';
+
+function loadFixtures(path: string | undefined): Fixture[] {
+    if (!path) return [];
+    const parsed = JSON.parse(readFileSync(path, 'utf8'));
+    if (!Array.isArray(parsed)) throw new Error(`Fixtures do extrator (${path}) devem ser uma lista.`);
+    return parsed.map((f: any, i: number) => {
+        if (typeof f?.match !== 'string' || !Array.isArray(f?.actions)) {
+            throw new Error(`Fixture ${i} inválida em ${path}: informe "match" (texto) e "actions" (lista).`);
+        }
+        const sample = instructionListSchema.safeParse({ actions: fillTemplate(f.actions, SAMPLE_GROUPS, SAMPLE_PHONE) });
+        if (!sample.success) {
+            throw new Error(`Fixture ${i} inválida em ${path}: ${formatValidationIssues(sample.error)}`);
+        }
+        return { match: new RegExp(f.match, 'i'), actions: f.actions };
+    });
+}
+
+/** Troca `$1`..`$9` e `{{user_phone}}` em todos os textos (recursivo). */
+function fillTemplate(value: unknown, groups: string[], userPhone: string): unknown {
+    if (typeof value === 'string') {
+        return value.replace(/\$(\d)/g, (_, n) => groups[Number(n)] ?? '').replace(/\{\{user_phone\}\}/g, userPhone);
+    }
+    if (Array.isArray(value)) return value.map((v) => fillTemplate(v, groups, userPhone));
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, fillTemplate(v, groups, userPhone)]));
+    }
+    return value;
+}
+
+function lastUserMessage(conversation: string): string {
+    const lines = conversation.split('\n').filter((line) => line.startsWith('U: '));
+    return lines.length ? lines[lines.length - 1].slice(3).trim() : conversation.trim();
+}
+
+const CHANGE_RE = /\b(mud|troc|atualiz|alter|corrig)\w*/i;
+
+/** Regras embutidas: só pedidos inequívocos; o resto fica "unknown". */
+function builtInRules(text: string, userPhone: string): Instruction[] | null {
+    const identifier = userPhone ? { key: 'telefone', value: userPhone } : undefined;
+
+    if (/\b(desfa[zç]\w*|volta\w* como estava)\b/i.test(text)) return [{ action: 'undo_last' }];
+    if (/\b(apag|exclu|delet|esquec)\w*\b.*\b(meus dados|meu cadastro)\b/i.test(text)) return [{ action: 'delete_my_data' }];
+    if (/\b(export|c[oó]pia|baixar)\w*\b.*\bmeus dados\b/i.test(text)) return [{ action: 'export_my_data' }];
+
+    if (!CHANGE_RE.test(text)) return null;
+    const email = text.match(/[^\s@<>()"',;]+@[^\s@<>()"',;]+\.[a-z]{2,}/i)?.[0];
+    if (/\be-?mail\b/i.test(text) && email && normalizeEmail(email)) {
+        return [{ action: 'update_email', new_value: normalizeEmail(email)!, identifier }];
+    }
+    const phone = text.match(/\+?\d[\d\s().-]{7,}\d/)?.[0];
+    if (/\b(telefone|n[uú]mero|celular|whats\w*)\b/i.test(text) && phone && normalizePhone(phone)) {
+        return [{ action: 'update_phone', new_value: normalizePhone(phone)!, identifier }];
+    }
+    return null;
+}
+
+/**
+ * @param options.fixturesPath arquivo JSON de fixtures (opcional; sem ele, só as regras embutidas).
+ */
+export function createRuleExtractor(options: { fixturesPath?: string } = {}): InstructionExtractor {
+    const fixtures = loadFixtures(options.fixturesPath);
+    return {
+        name: 'rules',
+        async extract({ conversation, userPhone }: ExtractionInput): Promise<Instruction[]> {
+            const text = lastUserMessage(conversation);
+            for (const fixture of fixtures) {
+                const m = text.match(fixture.match);
+                if (!m) continue;
+                const result = instructionListSchema.safeParse({ actions: fillTemplate(fixture.actions, [...m], userPhone) });
+                if (!result.success) {
+                    throw new Error(`Fixture "${fixture.match.source}" gerou instrução inválida: ${formatValidationIssues(result.error)}`);
+                }
+                return result.data.actions;
+            }
+            return builtInRules(text, userPhone) ?? [{ action: 'unknown' }];
+        },
+    };
+}
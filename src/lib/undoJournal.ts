@@ -0,0 +1,92 @@
+/**
+ * Diário de desfazer ("desfaz") das edições feitas pelo editData.
+ *
+ * Cada ação concluída registra os passos necessários para voltar ao estado anterior
+ * (valor antigo da célula, campos anteriores do evento, cópia completa do evento excluído...).
+ * O `undo_last` desfaz a entrada mais recente da sessão, desde que dentro da janela configurada.
+ *
+ * Obs.: armazenamento em memória, por processo (mesma limitação de '@/lib/pendingActions').
+ *
+ * ENV opcionais:
+ * - UNDO_WINDOW_MINUTES (ex.: "10") → por quanto tempo uma edição pode ser desfeita
+ */
+
+/** Campos de um evento guardados para restauração. */
+export type EventSnapshot = {
+    summary?: string | null;
+    description?: string | null;
+    location?: string | null;
+    attendees?: Array<{ email?: string | null }> | null;
+    start?: { dateTime?: string | null; date?: string | null; timeZone?: string | null } | null;
+    end?: { dateTime?: string | null; date?: string | null; timeZone?: string | null } | null;
+    recurrence?: string[] | null;
+    recurringEventId?: string | null;
+    extendedProperties?: { private?: Record<string, string>; shared?: Record<string, string> } | null;
+};
+
+export type UndoStep =
+    | { kind: 'sheet_update'; row: number; col: number; previous: string; updated: string; sessionKey?: string; rowId?: string; field?: string }
+    | { kind: 'sheet_row_appended'; row: number; values: string[]; rowId?: string }
+    | { kind: 'event_created'; eventId: string; calendarId?: string }
+    | { kind: 'event_patched'; eventId: string; calendarId?: string; previous: EventSnapshot }
+    | { kind: 'event_deleted'; eventId: string; calendarId?: string; snapshot: EventSnapshot };
+
+export type JournalEntry = {
+    action: string;
+    description: string; // o que foi feito (mensagem exibida ao usuário)
+    steps: UndoStep[]; // na ordem em que foram aplicados; desfazer percorre ao contrário
+    createdAt: number; // epoch ms
+};
+
+const UNDO_WINDOW_MS = Number(process.env.UNDO_WINDOW_MINUTES || 10) * 60 * 1000;
+const MAX_ENTRIES_PER_SESSION = 10;
+
+const journal = new Map<string, JournalEntry[]>();
+
+/** Copia só os campos restauráveis de um evento do Google Calendar. */
+export function snapshotEvent(ev: EventSnapshot): EventSnapshot {
+    return {
+        summary: ev.summary,
+        description: ev.description,
+        location: ev.location,
+        attendees: ev.attendees,
+        start: ev.start,
+        end: ev.end,
+        recurrence: ev.recurrence,
+        recurringEventId: ev.recurringEventId,
+        extendedProperties: ev.extendedProperties, // mantém a marcação de evento do bot ('@/lib/botEvents')
+    };
+}
+
+export function recordEdit(sessionId: string, entry: Omit<JournalEntry, 'createdAt'>) {
+    const entries = journal.get(sessionId) || [];
+    entries.push({ ...entry, createdAt: Date.now() });
+    journal.set(sessionId, entries.slice(-MAX_ENTRIES_PER_SESSION));
+}
+
+/**
+ * Remove e devolve a edição mais recente da sessão que ainda pode ser desfeita.
+ * Entradas fora da janela são descartadas.
+ */
+export function popLastEdit(sessionId: string): JournalEntry | null {
+    const entries = (journal.get(sessionId) || []).filter((e) => Date.now() - e.createdAt <= UNDO_WINDOW_MS);
+    const last = entries.pop() || null;
+    if (entries.length) journal.set(sessionId, entries);
+    else journal.delete(sessionId);
+    return last;
+}
+
+/**
+ * Descarta, em todas as sessões, as edições para as quais `match` é verdadeiro (ex.: as que guardam
+ * dados de um titular que pediu a exclusão). @returns quantas foram descartadas.
+ */
+export function discardEdits(match: (entry: JournalEntry, sessionId: string) => boolean): number {
+    let discarded = 0;
+    for (const [sessionId, entries] of journal) {
+        const kept = entries.filter((e) => !match(e, sessionId));
+        discarded += entries.length - kept.length;
+        if (kept.length) journal.set(sessionId, kept);
+        else journal.delete(sessionId);
+    }
+    return discarded;
+}
@@ -0,0 +1,279 @@
+import { sheets } from '@/lib/google';
+import { normalizeCpf, normalizeEmail, normalizePhone } from '@/lib/fieldValidation';
+import {
+    FIELD_REGISTRY,
+    findFieldColumn,
+    getFieldDefinition,
+    normalizeFieldName,
+    type FieldDefinition,
+} from '@/lib/fieldRegistry';
+
+/**
+ * Acesso à planilha de usuários (Google Sheets), compartilhado por getUserData e editData.
+ *
+ * A linha do usuário é localizada pelo cabeçalho das colunas (ver '@/lib/fieldRegistry'),
+ * nunca por posição fixa.
+ *
+ * Leituras passam por um cache em memória (por processo) com TTL, compartilhado pelas rotas,
+ * e por um índice de telefone/e-mail/CPF normalizados. Toda gravação nossa invalida o cache;
+ * caminhos de escrita que precisam do estado mais recente leem com `{ fresh: true }`.
+ *
+ * ENV esperadas:
+ * - SHEET_ID
+ * - SHEET_RANGE (ex.: "Página1!A:Z")
+ * - (opcional) SHEET_CACHE_TTL_SECONDS (padrão 30; 0 desliga o cache)
+ */
+
+export const SHEET_ID = process.env.SHEET_ID!;
+export const SHEET_RANGE = process.env.SHEET_RANGE || 'Página1!A:Z';
+
+/** Identificadores conhecidos de um usuário (qualquer um deles localiza a linha). */
+export type UserIdentity = { email?: string; phone?: string; cpf?: string; name?: string };
+
+export function extractSheetName(range: string): string {
+    const idx = range.indexOf('!');
+    return idx >= 0 ? range.slice(0, idx) : 'Sheet1';
+}
+
+export const SHEET_NAME = extractSheetName(SHEET_RANGE);
+
+function columnNumberToLetter(num: number) {
+    let n = num + 1;
+    let s = '';
+    while (n > 0) {
+        const mod = (n - 1) % 26;
+        s = String.fromCharCode(65 + mod) + s;
+        n = Math.floor((n - 1) / 26);
+    }
+    return s;
+}
+
+//
+// ================ Cache de leitura ================
+//
+const SHEET_CACHE_TTL_MS = Number(process.env.SHEET_CACHE_TTL_SECONDS ?? 30) * 1000;
+
+let cache: { values: string[][]; fetchedAt: number } | null = null;
+let inFlight: Promise<string[][]> | null = null;
+
+// Índice "campo:valor normalizado" → linha, por leitura (some junto com o array lido)
+const indexes = new WeakMap<string[][], Map<string, number>>();
+
+/** Descarta o cache (chamado em toda gravação feita por nós). */
+export function invalidateSheetCache() {
+    cache = null;
+    inFlight = null;
+}
+
+async function fetchSheetAll(): Promise<string[][]> {
+    if (!SHEET_ID) throw new Error('SHEET_ID ausente.');
+    const read = await sheets.spreadsheets.values.get({
+        spreadsheetId: SHEET_ID,
+        range: SHEET_RANGE,
+    });
+    return (read.data.values as any) || [];
+}
+
+/**
+ * Lê todo o intervalo configurado (linha 0 = cabeçalhos), usando o cache se ainda válido.
+ * Leituras simultâneas compartilham a mesma requisição.
+ * @param options.fresh ignora o cache (ex.: antes de gravar).
+ */
+export async function readSheetAll(options: { fresh?: boolean } = {}): Promise<string[][]> {
+    if (!options.fresh && cache && Date.now() - cache.fetchedAt < SHEET_CACHE_TTL_MS) return cache.values;
+    if (!options.fresh && inFlight) return inFlight;
+
+    const request = fetchSheetAll();
+    inFlight = request;
+    try {
+        const values = await request;
+        if (inFlight === request) cache = { values, fetchedAt: Date.now() };
+        return values;
+    } finally {
+        if (inFlight === request) inFlight = null;
+    }
+}
+
+/**
+ * Chave normalizada de um identificador para o índice (null = campo não indexável).
+ * Telefones e CPFs com formatações diferentes geram a mesma chave.
+ */
+function indexKey(field: FieldDefinition, value: unknown): string | null {
+    const v = String(value ?? '').trim();
+    if (!v) return null;
+    switch (field.type) {
+        case 'phone':
+            return `${field.key}:${normalizePhone(v) || v.replace(/\D/g, '')}`;
+        case 'email':
+            return `${field.key}:${v.toLowerCase()}`;
+        case 'cpf':
+            return `${field.key}:${normalizeCpf(v) || v.replace(/\D/g, '')}`;
+        default:
+            return null;
+    }
+}
+
+/** Índice (montado uma vez por leitura) das colunas de telefone/e-mail/CPF do registro. */
+function getIndex(values: string[][]): Map<string, number> {
+    let index = indexes.get(values);
+    if (index) return index;
+    index = new Map();
+    const headerRow = values[0] || [];
+    for (const field of FIELD_REGISTRY) {
+        if (field.type !== 'phone' && field.type !== 'email' && field.type !== 'cpf') continue;
+        const col = findFieldColumn(headerRow, field);
+        if (col < 0) continue;
+        for (let i = 1; i < values.length; i++) {
+            const key = indexKey(field, values[i]?.[col]);
+            if (key && !index.has(key)) index.set(key, i); // primeira ocorrência vence (como a busca linear)
+        }
+    }
+    indexes.set(values, index);
+    return index;
+}
+
+/**
+ * Procura a linha do usuário (índice em `values`, 0 = cabeçalho).
+ * Tenta primeiro o `identifier` explícito e depois, nesta ordem, e-mail, telefone, CPF e nome.
+ * @returns índice da linha ou -1.
+ */
+export function findRowIndexByIdentifier(
+    values: string[][],
+    identifier?: { key: string; value: string },
+    fallback: UserIdentity = {}
+): number {
+    const candidates = [];
+    if (identifier?.key && identifier?.value) candidates.push({ key: identifier.key, value: identifier.value });
+    if (fallback.email) candidates.push({ key: 'email', value: fallback.email });
+    if (fallback.phone) candidates.push({ key: 'telefone', value: fallback.phone });
+    if (fallback.cpf) candidates.push({ key: 'cpf', value: fallback.cpf });
+    if (fallback.name) candidates.push({ key: 'nome', value: fallback.name });
+
+    const headerRow = values[0] || [];
+    for (const cand of candidates) {
+        // Colunas do registro (cabeçalho/aliases); chaves fora do registro casam pelo cabeçalho exato
+        const field = getFieldDefinition(cand.key);
+        const col = field
+            ? findFieldColumn(headerRow, field)
+            : headerRow.findIndex((h) => normalizeFieldName(h) === normalizeFieldName(cand.key));
+        if (col < 0) continue;
+        // Telefone/e-mail/CPF: consulta direta no índice
+        const key = field ? indexKey(field, cand.value) : null;
+        if (key) {
+            const found = getIndex(values).get(key);
+            if (found !== undefined) return found;
+            continue;
+        }
+        for (let i = 1; i < values.length; i++) {
+            const cell = String(values[i]?.[col] ?? '');
+            if (cell.trim().toLowerCase() === String(cand.value).trim().toLowerCase()) return i;
+        }
+    }
+    return -1;
+}
+
+/** Lê uma única linha (índice 0-based) com `width` colunas a partir de A. */
+export async function readSheetRow(rowIndex: number, width: number): Promise<string[]> {
+    const range = `${SHEET_NAME}!A${rowIndex + 1}:${columnNumberToLetter(Math.max(0, width - 1))}${rowIndex + 1}`;
+    const read = await sheets.spreadsheets.values.get({ spreadsheetId: SHEET_ID, range });
+    return ((read.data.values as any)?.[0] || []).map((v: unknown) => String(v ?? ''));
+}
+
+/** ID estável da linha (coluna `id` do registro de campos); '' se a planilha não tem a coluna ou a célula está vazia. */
+export function rowIdOf(headerRow: string[], row: string[]): string {
+    const idField = getFieldDefinition('id');
+    const idCol = idField ? findFieldColumn(headerRow, idField) : -1;
+    return idCol >= 0 ? String(row[idCol] ?? '').trim() : '';
+}
+
+/**
+ * "Impressão digital" da linha: valor da coluna de ID, se existir; senão, telefone/e-mail/CPF.
+ * Duas leituras da mesma pessoa têm a mesma impressão, mesmo que outras colunas mudem.
+ */
+export function rowFingerprint(headerRow: string[], row: string[]): string {
+    const rowId = rowIdOf(headerRow, row);
+    if (rowId) return `id:${rowId}`;
+    return FIELD_REGISTRY.filter((f) => f.type === 'phone' || f.type === 'email' || f.type === 'cpf')
+        .map((f) => findFieldColumn(headerRow, f))
+        .filter((col) => col >= 0)
+        .map((col) => String(row[col] ?? '').trim().toLowerCase())
+        .join('|');
+}
+
+/**
+ * Relê a linha logo antes de gravar e confere se ainda é a mesma pessoa (linhas inseridas,
+ * ordenação ou outra sessão editando podem ter deslocado tudo).
+ * @returns a linha atual, ou null se a identidade não bate mais.
+ */
+export async function verifyRowIdentity(values: string[][], rowIndex: number): Promise<string[] | null> {
+    const headerRow = values[0] || [];
+    const expected = rowFingerprint(headerRow, values[rowIndex] || []);
+    const current = await readSheetRow(rowIndex, headerRow.length);
+    return expected && rowFingerprint(headerRow, current) === expected ? current : null;
+}
+
+/** Grava uma célula (índices 0-based, relativos ao início da aba). */
+export async function updateSheetCell(rowIndex: number, colIndex: number, newValue: string) {
+    const rangeA1 = `${SHEET_NAME}!${columnNumberToLetter(colIndex)}${rowIndex + 1}`;
+    await sheets.spreadsheets.values.update({
+        spreadsheetId: SHEET_ID,
+        range: rangeA1,
+        valueInputOption: 'RAW',
+        requestBody: { values: [[newValue]] },
+    });
+    invalidateSheetCache();
+}
+
+/**
+ * Acrescenta uma linha ao final da planilha (values.append).
+ * @returns número da linha criada (1-based), lido do intervalo devolvido pelo Google.
+ */
+export async function appendSheetRow(row: string[]): Promise<number> {
+    if (!SHEET_ID) throw new Error('SHEET_ID ausente.');
+    const res = await sheets.spreadsheets.values.append({
+        spreadsheetId: SHEET_ID,
+        range: SHEET_RANGE,
+        valueInputOption: 'RAW',
+        insertDataOption: 'INSERT_ROWS',
+        requestBody: { values: [row] },
+    });
+    invalidateSheetCache();
+    const updatedRange = res.data.updates?.updatedRange || '';
+    const rowNumber = Number(updatedRange.match(/![A-Z]+(\d+)/)?.[1]);
+    if (!rowNumber) throw new Error(`Intervalo inesperado após inserir a linha: "${updatedRange}".`);
+    return rowNumber;
+}
+
+/** Apaga os valores de uma linha inteira (índice 0-based), mantendo a linha em branco. */
+export async function clearSheetRow(rowIndex: number, width: number) {
+    const range = `${SHEET_NAME}!A${rowIndex + 1}:${columnNumberToLetter(Math.max(0, width - 1))}${rowIndex + 1}`;
+    await sheets.spreadsheets.values.clear({ spreadsheetId: SHEET_ID, range });
+    invalidateSheetCache();
+}
+
+/** Valores da linha para cada campo do registro presente na planilha, na ordem do registro. */
+export function readUserRecord(values: string[][], rowIndex: number): Array<{ field: FieldDefinition; value: string }> {
+    const headerRow = values[0] || [];
+    const row = values[rowIndex] || [];
+    return FIELD_REGISTRY.map((field) => ({ field, col: findFieldColumn(headerRow, field) }))
+        .filter(({ col }) => col >= 0)
+        .map(({ field, col }) => ({ field, value: String(row[col] ?? '') }));
+}
+
+/**
+ * Extrai identificadores de um texto livre ("meu e-mail é ana@x.com", "CPF 123.456.789-09", "(11) 98765-4321").
+ * CPF tem prioridade sobre telefone quando os 11 dígitos batem com os verificadores.
+ */
+export function identityFromText(text: string): UserIdentity {
+    const identity: UserIdentity = {};
+    const email = text.match(/[^\s@<>()"',;]+@[^\s@<>()"',;]+\.[a-z]{2,}/i)?.[0];
+    if (email && normalizeEmail(email)) identity.email = normalizeEmail(email)!;
+
+    const withoutEmail = email ? text.replace(email, ' ') : text;
+    for (const match of withoutEmail.match(/\+?\d[\d\s().-]{7,}\d/g) || []) {
+        const cpf = /cpf/i.test(text) || /^\d{3}\.\d{3}\.\d{3}-\d{2}$/.test(match.trim()) ? normalizeCpf(match) : null;
+        if (cpf && !identity.cpf) identity.cpf = cpf;
+        else if (!identity.phone && normalizePhone(match)) identity.phone = normalizePhone(match)!;
+    }
+    return identity;
+}
@@ -0,0 +1,141 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Autenticação das chamadas às rotas da API (webhooks da Moveo e consultas internas).
+ *
+ * Cada rota chama `verifyWebhookRequest` ANTES de qualquer acesso a Google/OpenAI; recusa → 401.
+ *
+ * Aceita, nesta ordem:
+ * 1) Assinatura HMAC-SHA256: header de assinatura = hex(HMAC(WEBHOOK_SECRET, `${timestamp}.${corpo}`)),
+ *    com o prefixo "sha256=" opcional. O header de timestamp é obrigatório e assinado junto.
+ * 2) Segredo compartilhado: header de segredo igual a WEBHOOK_SECRET.
+ * Em ambos, o header de timestamp é obrigatório e valores fora de WEBHOOK_MAX_SKEW_SECONDS são recusados
+ * (contra replay). Assinaturas já vistas dentro dessa janela também são recusadas (cache em memória, por
+ * processo: com várias instâncias, a mesma requisição ainda pode ser aceita uma vez em cada uma).
+ * No modo segredo compartilhado o timestamp não é assinado: a proteção contra replay é só a janela.
+ * Com WEBHOOK_ALLOWED_IPS, o IP de origem também precisa estar na lista. A lista pressupõe um proxy
+ * confiável (ex.: Vercel) que acrescenta o IP de quem conectou ao `x-forwarded-for`: vale a entrada
+ * acrescentada por ele (WEBHOOK_TRUSTED_PROXY_HOPS a partir da direita), nunca a primeira, que o
+ * cliente controla. Sem proxy na frente, não use a lista.
+ *
+ * ENV:
+ * - WEBHOOK_SECRET (obrigatório, salvo com WEBHOOK_AUTH=off — só para desenvolvimento local)
+ * - (opcional) WEBHOOK_SIGNATURE_HEADER (padrão "x-moveo-signature")
+ * - (opcional) WEBHOOK_TIMESTAMP_HEADER (padrão "x-moveo-timestamp"; segundos ou milissegundos desde 1970)
+ * - (opcional) WEBHOOK_SECRET_HEADER (padrão "x-webhook-secret")
+ * - (opcional) WEBHOOK_MAX_SKEW_SECONDS (padrão 300)
+ * - (opcional) WEBHOOK_ALLOWED_IPS (ex.: "203.0.113.10,198.51.100.0/24")
+ * - (opcional) WEBHOOK_TRUSTED_PROXY_HOPS (padrão 1; proxies confiáveis na frente da aplicação)
+ */
+
+const WEBHOOK_SECRET = process.env.WEBHOOK_SECRET || '';
+const AUTH_DISABLED = process.env.WEBHOOK_AUTH === 'off';
+const SIGNATURE_HEADER = process.env.WEBHOOK_SIGNATURE_HEADER || 'x-moveo-signature';
+const TIMESTAMP_HEADER = process.env.WEBHOOK_TIMESTAMP_HEADER || 'x-moveo-timestamp';
+const SECRET_HEADER = process.env.WEBHOOK_SECRET_HEADER || 'x-webhook-secret';
+const MAX_SKEW_MS = Number(process.env.WEBHOOK_MAX_SKEW_SECONDS || 300) * 1000;
+const ALLOWED_IPS = (process.env.WEBHOOK_ALLOWED_IPS || '')
+    .split(',')
+    .map((ip) => ip.trim())
+    .filter(Boolean);
+const TRUSTED_PROXY_HOPS = Math.max(1, Number(process.env.WEBHOOK_TRUSTED_PROXY_HOPS || 1));
+
+// Assinaturas HMAC aceitas (→ expira em, epoch ms), para recusar a mesma requisição repetida
+const seenSignatures = new Map<string, number>();
+
+/** Registra a assinatura; false se ela já foi usada dentro da janela. */
+function rememberSignature(signature: string): boolean {
+    const now = Date.now();
+    for (const [sig, expiresAt] of seenSignatures) {
+        if (expiresAt < now) seenSignatures.delete(sig);
+    }
+    if (seenSignatures.has(signature)) return false;
+    // O timestamp pode estar até MAX_SKEW_MS no futuro: guardamos pelo dobro da janela
+    seenSignatures.set(signature, now + 2 * MAX_SKEW_MS);
+    return true;
+}
+
+if (AUTH_DISABLED) console.warn('⚠️  WEBHOOK_AUTH=off: as rotas da API aceitam chamadas sem autenticação.');
+
+/** Comparação em tempo constante (não vaza, pelo tempo de resposta, quantos caracteres bateram). */
+function safeEqual(a: string, b: string): boolean {
+    const bufA = Buffer.from(a);
+    const bufB = Buffer.from(b);
+    return bufA.length === bufB.length && timingSafeEqual(bufA, bufB);
+}
+
+/**
+ * IP de quem chamou, pela entrada do x-forwarded-for acrescentada pelo proxy confiável mais externo
+ * (a N-ésima da direita, N = WEBHOOK_TRUSTED_PROXY_HOPS). As entradas à esquerda dela vêm do cliente e
+ * são ignoradas. Sem o header, usa x-real-ip (também definido pelo proxy); '' se desconhecido.
+ */
+function clientIp(req: Request): string {
+    const hops = (req.headers.get('x-forwarded-for') || '')
+        .split(',')
+        .map((ip) => ip.trim())
+        .filter(Boolean);
+    const forwarded = hops.length >= TRUSTED_PROXY_HOPS ? hops[hops.length - TRUSTED_PROXY_HOPS] : '';
+    const ip = hops.length ? forwarded : req.headers.get('x-real-ip') || '';
+    return ip.replace(/^::ffff:/, '');
+}
+
+function ipv4ToNumber(ip: string): number | null {
+    const parts = ip.split('.');
+    if (parts.length !== 4 || parts.some((p) => !/^\d{1,3}$/.test(p) || Number(p) > 255)) return null;
+    return parts.reduce((acc, p) => acc * 256 + Number(p), 0);
+}
+
+/** IP exato ou faixa IPv4 em CIDR ("198.51.100.0/24"). */
+function ipAllowed(ip: string, allowed: string[]): boolean {
+    return allowed.some((entry) => {
+        const [base, bits] = entry.split('/');
+        if (bits === undefined) return entry === ip;
+        const ipNum = ipv4ToNumber(ip);
+        const baseNum = ipv4ToNumber(base);
+        const prefix = Number(bits);
+        if (ipNum === null || baseNum === null || !(prefix >= 0 && prefix <= 32)) return false;
+        const size = 2 ** (32 - prefix);
+        return Math.floor(ipNum / size) === Math.floor(baseNum / size);
+    });
+}
+
+/** Timestamp do header (segundos ou ms) dentro da tolerância? null = header ausente. */
+function checkTimestamp(value: string | null): boolean | null {
+    if (!value) return null;
+    const raw = Number(value);
+    if (!Number.isFinite(raw)) return false;
+    const ms = raw < 1e12 ? raw * 1000 : raw;
+    return Math.abs(Date.now() - ms) <= MAX_SKEW_MS;
+}
+
+/**
+ * Confere se a requisição veio de quem pode chamar a API. Lê o corpo de um clone: a rota ainda pode
+ * usar `req.json()` depois.
+ * @returns o motivo da recusa (para o log; nunca vai para quem chamou), ou null se autorizada.
+ */
+export async function verifyWebhookRequest(req: Request): Promise<string | null> {
+    if (ALLOWED_IPS.length) {
+        const ip = clientIp(req);
+        if (!ip || !ipAllowed(ip, ALLOWED_IPS)) return `IP fora da lista permitida (${ip || 'desconhecido'}).`;
+    }
+    if (AUTH_DISABLED) return null;
+    if (!WEBHOOK_SECRET) return 'WEBHOOK_SECRET não configurado.';
+
+    const timestamp = req.headers.get(TIMESTAMP_HEADER);
+    const fresh = checkTimestamp(timestamp);
+    if (fresh === null) return `Requisição sem o header ${TIMESTAMP_HEADER}.`;
+    if (!fresh) return 'Timestamp fora da janela permitida (possível replay).';
+
+    const signature = req.headers.get(SIGNATURE_HEADER);
+    if (signature) {
+        const body = await req.clone().text();
+        const expected = createHmac('sha256', WEBHOOK_SECRET).update(`${timestamp}.${body}`).digest('hex');
+        if (!safeEqual(signature.replace(/^sha256=/i, '').trim().toLowerCase(), expected)) return 'Assinatura HMAC inválida.';
+        return rememberSignature(expected) ? null : 'Assinatura já usada (replay).';
+    }
+
+    const secret = req.headers.get(SECRET_HEADER);
+    if (secret) return safeEqual(secret, WEBHOOK_SECRET) ? null : 'Segredo compartilhado inválido.';
+
+    return 'Requisição sem assinatura nem segredo.';
+}
@@ -0,0 +1,15 @@
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+// Testes ao lado do código (src/ e app/), com o mesmo alias "@/..." do tsconfig
+const config = defineConfig({
+    resolve: {
+        alias: { '@': fileURLToPath(new URL('./src', import.meta.url)) },
+    },
+    test: {
+        environment: 'node',
+        include: ['src/**/*.test.ts', 'app/**/*.test.ts'],
+    },
+});
+
+export default config;